@@ -0,0 +1,102 @@
+/**
+ * Where files served with the docs, such as Mermaid itself in local mode and
+ * extensions, are written and how pages load them.
+ *
+ * By default they're written to `assets/mermaid/` in the output directory and
+ * loaded by a path relative to each page. A base URL makes every page load them
+ * from the same absolute or root-relative URL instead, for docs whose static
+ * assets are served from somewhere else.
+ *
+ * @packageDocumentation
+ */
+import { posix } from 'node:path';
+
+/**
+ * Default directory for Mermaid assets, relative to the output directory.
+ */
+export const DEFAULT_ASSET_DIR = 'assets/mermaid';
+
+/**
+ * Where Mermaid assets are written and loaded from.
+ */
+export interface MermaidAssetLocation {
+  /**
+   * Directory of the assets, relative to the output directory.
+   */
+  assetDir: string;
+
+  /**
+   * Absolute or root-relative URL the directory is served from, if pages
+   * shouldn't load it by a relative path.
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Matches an absolute URL, including a protocol-relative one, or a
+ * root-relative URL.
+ */
+const BASE_URL = /^(?:[a-z][a-z0-9+.-]*:\/\/|\/)/i;
+
+/**
+ * Normalize an asset directory, removing redundant `./` and slashes.
+ *
+ * @param assetDir - The directory, relative to the output directory
+ * @returns The normalized directory, without a trailing slash
+ */
+export const normalizeAssetDir = (assetDir: string): string =>
+  posix.normalize(assetDir.replace(/\\/g, '/')).replace(/\/+$/, '');
+
+/**
+ * Check that an option value is a directory within the output directory.
+ *
+ * @param value - The option value
+ * @throws If the directory is absolute, empty or outside the output directory
+ */
+export const validateAssetDir = (value: string): void => {
+  const assetDir = normalizeAssetDir(value);
+  if (
+    posix.isAbsolute(assetDir) ||
+    /^[a-z]:/i.test(assetDir) ||
+    assetDir === '.' ||
+    assetDir === '..' ||
+    assetDir.startsWith('../')
+  ) {
+    throw new TypeError(
+      `[typedoc-plugin-mermaid] mermaidAssetDir must be a subdirectory of the output directory, like ${DEFAULT_ASSET_DIR}`,
+    );
+  }
+};
+
+/**
+ * Check that an option value is an absolute or root-relative URL, if it's set.
+ *
+ * @param value - The option value
+ * @throws If the URL is relative to the page
+ */
+export const validateAssetBaseUrl = (value: string): void => {
+  if (value && !BASE_URL.test(value)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] mermaidAssetBaseUrl must be an absolute URL, like https://static.example.com/mermaid/, or start with /',
+    );
+  }
+};
+
+/**
+ * Get the URL a page loads Mermaid assets from.
+ *
+ * @param pageUrl - The URL of the page, relative to the output directory
+ * @param location - Where the assets are
+ * @returns The URL of the asset directory, ending in `/`
+ */
+export const getAssetDirUrl = (
+  pageUrl: string,
+  { assetDir, baseUrl }: MermaidAssetLocation,
+): string => {
+  if (baseUrl) {
+    return baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+  const depth = pageUrl.split('/').length - 1;
+  const prefix = depth > 0 ? '../'.repeat(depth) : './';
+  return `${prefix}${normalizeAssetDir(assetDir)}/`;
+};
@@ -0,0 +1,237 @@
+/**
+ * Per-block options given after `mermaid` in a code fence's info string, e.g.
+ * `title="Order lifecycle" theme=neutral height=400`.
+ *
+ * @packageDocumentation
+ */
+import {
+  applyMermaidTheme,
+  MERMAID_THEME_NAMES,
+  type MermaidThemeName,
+} from './themes.js';
+
+/**
+ * Horizontal alignments a block may request.
+ */
+export const MERMAID_BLOCK_ALIGNMENTS = ['center', 'left', 'right'] as const;
+
+/**
+ * The subset of a markdown-it instance the fence rule needs.
+ */
+export interface MarkdownItParser {
+  renderer: {
+    rules: Record<string, MarkdownItRule | undefined>;
+  };
+  utils: {
+    escapeHtml: (str: string) => string;
+  };
+}
+
+/**
+ * A markdown-it render rule.
+ */
+export type MarkdownItRule = (
+  tokens: { info: string }[],
+  idx: number,
+  ...rest: unknown[]
+) => string;
+
+/**
+ * A horizontal alignment for a block.
+ */
+export type MermaidBlockAlign = (typeof MERMAID_BLOCK_ALIGNMENTS)[number];
+
+/**
+ * Options for a single Mermaid block.
+ */
+export interface MermaidBlockOptions {
+  /**
+   * Horizontal alignment of the diagram.
+   */
+  align?: MermaidBlockAlign;
+
+  /**
+   * Whether the diagram starts collapsed behind its title.
+   */
+  collapsed?: boolean;
+
+  /**
+   * Maximum height, as a CSS length.
+   */
+  height?: string;
+
+  /**
+   * Anchor id of the block.
+   */
+  id?: string;
+
+  /**
+   * Theme used in both light and dark mode, replacing the configured themes.
+   */
+  theme?: MermaidThemeName;
+
+  /**
+   * Title shown above the diagram.
+   */
+  title?: string;
+
+  /**
+   * Maximum width, as a CSS length.
+   */
+  width?: string;
+}
+
+/**
+ * Options parsed from an info string, and any problems found in it.
+ */
+export interface ParsedMermaidBlockInfo {
+  /**
+   * The valid options.
+   */
+  options: MermaidBlockOptions;
+
+  /**
+   * Warnings about unknown keys and invalid values, which are ignored.
+   */
+  problems: string[];
+}
+
+/**
+ * Matches a key, optionally followed by a double-quoted, single-quoted or bare
+ * value.
+ */
+const INFO_ATTRIBUTE = /([^\s=]+)(?:=(?:"([^"]*)"|'([^']*)'|(\S*)))?/g;
+
+/**
+ * Matches a CSS length; a bare number means pixels.
+ */
+const CSS_LENGTH = /^\d+(?:\.\d+)?(ch|em|px|rem|vh|vw|%)?$/;
+
+/**
+ * Matches an id which needs no escaping in HTML or CSS selectors.
+ */
+const ANCHOR_ID = /^[A-Za-z][\w:.-]*$/;
+
+/**
+ * Matches a `mermaid` info string, capturing the options after the language.
+ */
+const MERMAID_INFO = /^mermaid(?:\s+([\s\S]*))?$/;
+
+/**
+ * Parse the options following `mermaid` in a fence's info string.
+ *
+ * @param info - The info string, without the leading `mermaid`
+ * @returns The options, and warnings for anything which was ignored
+ */
+export const parseMermaidBlockInfo = (info: string): ParsedMermaidBlockInfo => {
+  const options: MermaidBlockOptions = {};
+  const problems: string[] = [];
+
+  for (const [, key, ...values] of info.matchAll(INFO_ATTRIBUTE)) {
+    const value = values.find((v) => v !== undefined);
+    const invalid = () =>
+      problems.push(
+        `[typedoc-plugin-mermaid] Invalid value ${JSON.stringify(value ?? '')} for Mermaid block option "${key}"`,
+      );
+
+    switch (key) {
+      case 'align':
+        if (MERMAID_BLOCK_ALIGNMENTS.includes(value as MermaidBlockAlign)) {
+          options.align = value as MermaidBlockAlign;
+        } else {
+          invalid();
+        }
+        break;
+      case 'collapsed':
+        if (value === undefined || value === 'true') {
+          options.collapsed = true;
+        } else if (value === 'false') {
+          options.collapsed = false;
+        } else {
+          invalid();
+        }
+        break;
+      case 'height':
+      case 'width': {
+        const match = value === undefined ? null : CSS_LENGTH.exec(value);
+        if (match) {
+          options[key] = match[1] ? value : `${value}px`;
+        } else {
+          invalid();
+        }
+        break;
+      }
+      case 'id':
+        if (value !== undefined && ANCHOR_ID.test(value)) {
+          options.id = value;
+        } else {
+          invalid();
+        }
+        break;
+      case 'theme':
+        if (MERMAID_THEME_NAMES.includes(value as MermaidThemeName)) {
+          options.theme = value as MermaidThemeName;
+        } else {
+          invalid();
+        }
+        break;
+      case 'title':
+        if (value) {
+          options.title = value;
+        } else {
+          invalid();
+        }
+        break;
+      default:
+        problems.push(
+          `[typedoc-plugin-mermaid] Unknown Mermaid block option "${key}"`,
+        );
+    }
+  }
+
+  return { options, problems };
+};
+
+/**
+ * Get the code Mermaid renders for a block, applying its theme override.
+ *
+ * The override is an `%%{init}%%` directive which comes after, and so wins
+ * over, the directive added for each theme variant.
+ *
+ * @param plainCode - Unescaped, trimmed Mermaid code
+ * @param options - The block's options
+ * @returns The code to render
+ */
+export const getBlockDiagramCode = (
+  plainCode: string,
+  { theme }: MermaidBlockOptions,
+): string => (theme ? applyMermaidTheme(plainCode, { theme }) : plainCode);
+
+/**
+ * Carry the options of `mermaid` fences through TypeDoc's markdown rendering.
+ *
+ * TypeDoc renders a fence as `<pre><code class="mermaid">`, dropping everything
+ * in the info string after the language. This wraps the parser's `fence` rule
+ * to keep it in a `data-mermaid-info` attribute. Problems with the options are
+ * reported by {@link collectMermaidBlockProblems}, which knows where each block
+ * is documented.
+ *
+ * @param parser - The markdown-it instance TypeDoc uses
+ */
+export const addMermaidFenceInfo = (parser: MarkdownItParser): void => {
+  const fence = parser.renderer.rules['fence'];
+  if (!fence) {
+    return;
+  }
+  parser.renderer.rules['fence'] = (tokens, idx, ...rest) => {
+    const html = fence(tokens, idx, ...rest);
+    const info = MERMAID_INFO.exec(tokens[idx]!.info.trim())?.[1];
+    if (!info) {
+      return html;
+    }
+    return html.replace(
+      '<pre><code class="mermaid">',
+      `<pre><code class="mermaid" data-mermaid-info="${parser.utils.escapeHtml(info)}">`,
+    );
+  };
+};
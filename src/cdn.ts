@@ -0,0 +1,107 @@
+/**
+ * Pinning the CDN build of Mermaid to the installed version, with Subresource
+ * Integrity.
+ *
+ * @packageDocumentation
+ */
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Placeholder for the Mermaid version in a CDN URL template.
+ */
+const CDN_VERSION_PLACEHOLDER = '{version}';
+
+/**
+ * Default template for pinned CDN URLs.
+ */
+export const DEFAULT_CDN_TEMPLATE = `https://unpkg.com/mermaid@${CDN_VERSION_PLACEHOLDER}/dist/mermaid.esm.min.mjs`;
+
+/**
+ * Lowest major version of Mermaid the plugin supports, matching its peer
+ * dependency range.
+ */
+export const MIN_MERMAID_MAJOR = 11;
+
+/**
+ * A CDN URL pinned to an exact Mermaid version.
+ */
+export interface PinnedCdn {
+  /**
+   * Subresource Integrity hash of the entry point.
+   */
+  integrity: string;
+
+  /**
+   * URL of the entry point.
+   */
+  url: string;
+}
+
+/**
+ * Matches the version in a CDN URL, e.g. `11.4.0` in `.../mermaid@11.4.0/...`.
+ */
+const CDN_URL_VERSION = /\/mermaid@([^/]+)\//;
+
+/**
+ * Matches the major version at the start of a version or range.
+ */
+const MAJOR_VERSION = /^[v=^~]*(\d+)(?:\.|$)/;
+
+/**
+ * Check that an option value is a CDN URL template.
+ *
+ * @param value - The option value
+ * @throws If the template has no version placeholder
+ */
+export const validateCdnTemplate = (value: string): void => {
+  if (!value.includes(CDN_VERSION_PLACEHOLDER)) {
+    throw new TypeError(
+      `[typedoc-plugin-mermaid] mermaidCdnTemplate must contain ${CDN_VERSION_PLACEHOLDER}`,
+    );
+  }
+};
+
+/**
+ * Build a CDN URL for a Mermaid version.
+ *
+ * @param template - URL template containing `{version}`
+ * @param version - The exact Mermaid version
+ * @returns The URL
+ */
+export const formatCdnUrl = (template: string, version: string): string =>
+  template.replaceAll(CDN_VERSION_PLACEHOLDER, version);
+
+/**
+ * Find the Mermaid version a CDN URL names.
+ *
+ * @param url - The CDN URL
+ * @returns The version, range or tag after `mermaid@`, or `undefined` if the
+ *   URL names none
+ */
+export const getCdnUrlVersion = (url: string): string | undefined =>
+  CDN_URL_VERSION.exec(url)?.[1];
+
+/**
+ * Check whether a version named in a CDN URL is one the plugin supports.
+ *
+ * Tags such as `latest` can't be checked, so they are assumed to be supported.
+ *
+ * @param version - A version, range or tag
+ * @returns `false` if the version is below {@link MIN_MERMAID_MAJOR}
+ */
+export const isSupportedMermaidVersion = (version: string): boolean => {
+  const major = MAJOR_VERSION.exec(version)?.[1];
+  return major === undefined || Number(major) >= MIN_MERMAID_MAJOR;
+};
+
+/**
+ * Compute the Subresource Integrity hash of a file.
+ *
+ * @param path - Path of the file
+ * @returns A `sha384-` hash for an `integrity` attribute
+ */
+export const getSubresourceIntegrity = async (path: string): Promise<string> =>
+  `sha384-${createHash('sha384')
+    .update(await readFile(path))
+    .digest('base64')}`;
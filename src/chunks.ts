@@ -0,0 +1,275 @@
+/**
+ * Selecting the chunks of Mermaid's ESM build which the documented diagram
+ * types need, so local mode doesn't copy all of them.
+ *
+ * Mermaid's entry point registers each diagram type with a detector, regular
+ * expressions tested against the diagram's code and sometimes its
+ * configuration, and a loader which imports the type's chunk. Rather than keep
+ * a table of types which goes stale with each Mermaid release, the detectors
+ * and chunks are read from the installed build.
+ *
+ * @packageDocumentation
+ */
+import { cp, mkdir, readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { splitFrontMatter } from './figures.js';
+
+/**
+ * Bytes and files copied, and bytes left behind, by a partial copy.
+ */
+export interface MermaidChunkCopyResult {
+  /**
+   * Number of chunks copied.
+   */
+  copied: number;
+
+  /**
+   * Total size of the files not copied.
+   */
+  saved: number;
+
+  /**
+   * Number of chunks in the build.
+   */
+  total: number;
+}
+
+/**
+ * Result of selecting the chunks for a set of diagram types.
+ */
+export type MermaidChunkSelection =
+  | { chunks: Set<string>; ok: true }
+  | { keyword: string; ok: false };
+
+/**
+ * A diagram type's loader found in Mermaid's entry point.
+ */
+export interface MermaidDiagramLoader {
+  /**
+   * File name of the chunk the loader imports.
+   */
+  chunk: string;
+
+  /**
+   * Detectors which select the loader; a diagram needs the chunk if any of them
+   * matches.
+   */
+  detectors: RegExp[];
+
+  /**
+   * Whether the detector also reads Mermaid's configuration, such as
+   * `flowchart.defaultRenderer`, which may then select the loader.
+   */
+  readsConfig: boolean;
+}
+
+/**
+ * Matches a dynamic import of a chunk in the entry point.
+ */
+const ENTRY_DYNAMIC_IMPORT =
+  /import\("\.\/chunks\/mermaid\.esm\.min\/([^"]+)"\)/g;
+
+/**
+ * Matches a static import of a chunk in the entry point.
+ */
+const ENTRY_STATIC_IMPORT =
+  /(?:from|import)\s*"\.\/chunks\/mermaid\.esm\.min\/([^"]+)"/g;
+
+/**
+ * Matches a static or dynamic import of a sibling chunk, within a chunk.
+ */
+const CHUNK_IMPORT = /(?:from|import)\s*\(?\s*"\.\/([^"/]+\.mjs)"/g;
+
+/**
+ * Matches a detector's regular expression literal; every detector anchors its
+ * keyword at the start of the diagram.
+ */
+const DETECTOR = /\/(\^\\s\*(?:\\.|[^/\\\n])*)\/([a-z]*)\.test\(/g;
+
+/**
+ * Matches a detector function which takes Mermaid's configuration as well as
+ * the diagram's code.
+ */
+const CONFIG_DETECTOR = /\(\w+,\w+(?:=\{\})?\)=>/;
+
+/**
+ * Matches a `%%{init}%%` directive.
+ */
+const DIRECTIVE = /%%\{[\s\S]*?\}%%/g;
+
+/**
+ * Matches a `config` key in front matter.
+ */
+const FRONT_MATTER_CONFIG = /^config:/m;
+
+/**
+ * Get the code Mermaid's detectors see: the diagram without its front matter,
+ * directives and comments.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The code to detect the diagram's type from
+ */
+const getDetectedCode = (code: string): string => {
+  const [, body] = splitFrontMatter(code);
+  return body
+    .replace(DIRECTIVE, '')
+    .replace(/^[ \t]*%%.*$/gm, '')
+    .trim();
+};
+
+/**
+ * Check whether a diagram configures Mermaid itself, with a `config` key in its
+ * front matter or a `%%{init}%%` directive.
+ *
+ * @param code - Plain Mermaid code
+ * @returns `true` if it does
+ */
+const hasDiagramConfig = (code: string): boolean => {
+  const [frontMatter, body] = splitFrontMatter(code);
+  return FRONT_MATTER_CONFIG.test(frontMatter) || body.search(DIRECTIVE) >= 0;
+};
+
+/**
+ * Get the keyword which declares a diagram's type, such as `flowchart` or
+ * `sequenceDiagram`.
+ *
+ * Front matter, directives and comments are skipped, as Mermaid does when
+ * detecting the type.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The keyword, or `undefined` if the diagram is empty
+ */
+export const getDiagramKeyword = (code: string): string | undefined =>
+  getDetectedCode(code).split(/\s/, 1)[0] || undefined;
+
+/**
+ * Find the diagram loaders in Mermaid's entry point.
+ *
+ * Each detector precedes the import in its loader, so the detectors of a loader
+ * are those between its import and the one before.
+ *
+ * @param entrySource - Source of `mermaid.esm.min.mjs`
+ * @returns The loaders, in the order they appear
+ */
+export const findDiagramLoaders = (
+  entrySource: string,
+): MermaidDiagramLoader[] => {
+  const loaders: MermaidDiagramLoader[] = [];
+  let start = 0;
+  for (const match of entrySource.matchAll(ENTRY_DYNAMIC_IMPORT)) {
+    const preceding = entrySource.slice(start, match.index);
+    start = match.index + match[0].length;
+    loaders.push({
+      chunk: match[1]!,
+      detectors: [...preceding.matchAll(DETECTOR)].map(
+        ([, source, flags]) => new RegExp(source!, flags),
+      ),
+      readsConfig: CONFIG_DETECTOR.test(preceding),
+    });
+  }
+  return loaders;
+};
+
+/**
+ * Select the chunks which the given diagrams need.
+ *
+ * These are the chunks the entry point always imports, the chunks of the
+ * loaders whose detectors match the diagrams, and everything those import in
+ * turn. Imports within chunks, such as layout engines, are all followed, since
+ * there's no telling which diagrams need them.
+ *
+ * Detectors are tested against each diagram's code as Mermaid sees it, but
+ * configuration can't be evaluated here. So a detector matches if any of its
+ * expressions does, whatever the configuration, and when a diagram or the site
+ * configures Mermaid, every loader whose detector reads configuration is
+ * selected too.
+ *
+ * @param entryPath - Path of `mermaid.esm.min.mjs`
+ * @param chunksDir - Directory of the chunks
+ * @param codes - Plain Mermaid code of the diagrams
+ * @param configured - Whether the site's Mermaid configuration is set
+ * @returns The chunk file names, or the keyword of the first diagram which no
+ *   loader detects
+ */
+export const selectMermaidChunks = async (
+  entryPath: string,
+  chunksDir: string,
+  codes: Iterable<string>,
+  configured = false,
+): Promise<MermaidChunkSelection> => {
+  const entrySource = await readFile(entryPath, 'utf8');
+  const loaders = findDiagramLoaders(entrySource);
+
+  const pending = [...entrySource.matchAll(ENTRY_STATIC_IMPORT)].map(
+    ([, chunk]) => chunk!,
+  );
+  for (const code of codes) {
+    const detected = getDetectedCode(code);
+    if (!detected) {
+      continue;
+    }
+    const matched = loaders.filter(({ detectors }) =>
+      detectors.some((detector) => detector.test(detected)),
+    );
+    if (!matched.length) {
+      return { keyword: getDiagramKeyword(code)!, ok: false };
+    }
+    if (configured || hasDiagramConfig(code)) {
+      matched.push(...loaders.filter(({ readsConfig }) => readsConfig));
+    }
+    pending.push(...matched.map(({ chunk }) => chunk));
+  }
+  // Imports with no detector, if any, aren't diagram types; keep them
+  pending.push(
+    ...loaders
+      .filter(({ detectors }) => !detectors.length)
+      .map(({ chunk }) => chunk),
+  );
+
+  const chunks = new Set<string>();
+  for (let chunk = pending.pop(); chunk; chunk = pending.pop()) {
+    if (chunks.has(chunk)) {
+      continue;
+    }
+    chunks.add(chunk);
+    const source = await readFile(join(chunksDir, chunk), 'utf8');
+    pending.push(...[...source.matchAll(CHUNK_IMPORT)].map(([, c]) => c!));
+  }
+
+  return { chunks, ok: true };
+};
+
+/**
+ * Copy the selected chunks, and their source maps, to the output.
+ *
+ * @param chunksDir - Directory of the chunks
+ * @param destDir - Directory to copy them to
+ * @param chunks - File names of the chunks to copy
+ * @returns How much was copied and left behind
+ */
+export const copyMermaidChunks = async (
+  chunksDir: string,
+  destDir: string,
+  chunks: ReadonlySet<string>,
+): Promise<MermaidChunkCopyResult> => {
+  const result: MermaidChunkCopyResult = { copied: 0, saved: 0, total: 0 };
+  await mkdir(destDir, { recursive: true });
+
+  for (const file of await readdir(chunksDir)) {
+    const chunk = file.replace(/\.map$/, '');
+    if (file === chunk) {
+      result.total++;
+    }
+    if (chunks.has(chunk)) {
+      await cp(join(chunksDir, file), join(destDir, file));
+      if (file === chunk) {
+        result.copied++;
+      }
+    } else {
+      result.saved += (await stat(join(chunksDir, file))).size;
+    }
+  }
+
+  return result;
+};
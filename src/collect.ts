@@ -0,0 +1,160 @@
+/**
+ * Discovery of Mermaid diagram sources in the TypeDoc project model.
+ *
+ * @packageDocumentation
+ */
+import {
+  type CommentDisplayPart,
+  type ProjectReflection,
+  type Reflection,
+} from 'typedoc';
+
+import { getBlockDiagramCode, parseMermaidBlockInfo } from './blocks.js';
+
+/**
+ * A Mermaid diagram found in a reflection's documentation.
+ */
+export interface CollectedDiagram {
+  /**
+   * The plain (unescaped, trimmed) Mermaid code, including any theme override
+   * from the fence's options.
+   */
+  code: string;
+
+  /**
+   * The reflection whose comment, readme or document content contains the
+   * diagram.
+   */
+  reflection: Reflection;
+}
+
+/**
+ * A problem with the options of a Mermaid block, found in a reflection's
+ * documentation.
+ */
+export interface MermaidBlockProblem {
+  /**
+   * The warning, naming the ignored option.
+   */
+  message: string;
+
+  /**
+   * The reflection whose comment, readme or document content contains the
+   * block.
+   */
+  reflection: Reflection;
+}
+
+/**
+ * Matches a fenced `mermaid` code block as stored in a `code` display part.
+ */
+const MERMAID_FENCE =
+  /^(`{3,}|~{3,})[ \t]*mermaid\b([^\n]*)\n([\s\S]*?)\n?\1[ \t]*$/;
+
+/**
+ * Extract the Mermaid code from fenced `mermaid` blocks in comment display
+ * parts.
+ *
+ * The returned code is trimmed so that it matches what
+ * {@link transformMermaidBlocks} sees after unescaping TypeDoc's HTML output,
+ * and prefixed with the block's theme override, if it has one.
+ *
+ * @param parts - Display parts from a comment, readme or document
+ * @returns The code of each Mermaid block, in order
+ */
+export const extractMermaidCode = (
+  parts: readonly CommentDisplayPart[],
+): string[] => {
+  const codes: string[] = [];
+  for (const part of parts) {
+    if (part.kind !== 'code') {
+      continue;
+    }
+    const match = MERMAID_FENCE.exec(part.text.trim());
+    if (match) {
+      const { options } = parseMermaidBlockInfo(match[2]!);
+      codes.push(getBlockDiagramCode(match[3]!.trim(), options));
+    }
+  }
+  return codes;
+};
+
+/**
+ * Get every list of display parts attached to a reflection which may contain
+ * Mermaid blocks.
+ *
+ * @param reflection - The reflection to inspect
+ * @returns The display part lists
+ */
+const getDisplayParts = (
+  reflection: Reflection,
+): (readonly CommentDisplayPart[])[] => {
+  const lists: (readonly CommentDisplayPart[])[] = [];
+  if (reflection.comment) {
+    lists.push(reflection.comment.summary);
+    for (const tag of reflection.comment.blockTags) {
+      lists.push(tag.content);
+    }
+  }
+  if (reflection.isDocument()) {
+    lists.push(reflection.content);
+  }
+  if (
+    (reflection.isProject() || reflection.isDeclaration()) &&
+    reflection.readme
+  ) {
+    lists.push(reflection.readme);
+  }
+  return lists;
+};
+
+/**
+ * Collect all Mermaid diagrams in a project's documentation.
+ *
+ * @param project - The project to walk
+ * @returns The diagrams found, with the reflection each belongs to
+ */
+export const collectMermaidDiagrams = (
+  project: ProjectReflection,
+): CollectedDiagram[] => {
+  const diagrams: CollectedDiagram[] = [];
+  // The project is registered among its own reflections
+  for (const reflection of Object.values(project.reflections)) {
+    for (const parts of getDisplayParts(reflection)) {
+      for (const code of extractMermaidCode(parts)) {
+        diagrams.push({ code, reflection });
+      }
+    }
+  }
+  return diagrams;
+};
+
+/**
+ * Find problems with the options of every Mermaid block in a project's
+ * documentation.
+ *
+ * @param project - The project to walk
+ * @returns The problems found, with the reflection each block belongs to
+ */
+export const collectMermaidBlockProblems = (
+  project: ProjectReflection,
+): MermaidBlockProblem[] => {
+  const problems: MermaidBlockProblem[] = [];
+  // The project is registered among its own reflections
+  for (const reflection of Object.values(project.reflections)) {
+    for (const parts of getDisplayParts(reflection)) {
+      for (const part of parts) {
+        const info =
+          part.kind === 'code'
+            ? MERMAID_FENCE.exec(part.text.trim())?.[2]
+            : undefined;
+        if (info) {
+          for (const message of parseMermaidBlockInfo(info).problems) {
+            problems.push({ message, reflection });
+          }
+        }
+      }
+    }
+  }
+  return problems;
+};
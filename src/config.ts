@@ -0,0 +1,171 @@
+/**
+ * Configuration passed to `mermaid.initialize()`.
+ *
+ * @packageDocumentation
+ */
+import { type MermaidConfig } from 'mermaid';
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * Configuration the plugin always passes to Mermaid, unless overridden.
+ */
+export const DEFAULT_MERMAID_CONFIG: MermaidConfig = {
+  flowchart: { useMaxWidth: true },
+  sequence: { useMaxWidth: true },
+};
+
+/**
+ * Check whether a value is a plain object (not an array, class instance or
+ * `null`).
+ *
+ * @param value - The value
+ * @returns `true` if the value is a plain object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deep-merge Mermaid configuration into the plugin defaults.
+ *
+ * Nested objects are merged; arrays and other values replace the default.
+ *
+ * @param config - User configuration
+ * @param defaults - Configuration to merge into
+ * @returns The merged configuration
+ */
+export const mergeMermaidConfig = (
+  config: MermaidConfig = {},
+  defaults: MermaidConfig = DEFAULT_MERMAID_CONFIG,
+): MermaidConfig => {
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(config)) {
+    const base = merged[key];
+    merged[key] =
+      isPlainObject(base) && isPlainObject(value)
+        ? mergeMermaidConfig(value, base)
+        : value;
+  }
+  return merged;
+};
+
+/**
+ * Find the first value in a configuration which cannot survive a round trip
+ * through JSON.
+ *
+ * @param value - The value to check
+ * @param path - Where the value is, for error messages
+ * @param seen - Objects already visited, to detect cycles
+ * @returns A description of the problem, or `undefined` if there is none
+ */
+const findUnserializable = (
+  value: unknown,
+  path: string,
+  seen: Set<object>,
+): string | undefined => {
+  switch (typeof value) {
+    case 'bigint':
+    case 'function':
+    case 'symbol':
+    case 'undefined':
+      return `${path} is a ${typeof value}`;
+    case 'number':
+      return Number.isFinite(value) ? undefined : `${path} is ${value}`;
+    case 'object': {
+      if (value === null) {
+        return undefined;
+      }
+      if (seen.has(value)) {
+        return `${path} is a circular reference`;
+      }
+      if (!Array.isArray(value) && !isPlainObject(value)) {
+        return `${path} is a ${value.constructor?.name ?? 'non-plain object'}`;
+      }
+      seen.add(value);
+      for (const [key, child] of Object.entries(value)) {
+        const problem = findUnserializable(
+          child,
+          Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`,
+          seen,
+        );
+        if (problem) {
+          return problem;
+        }
+      }
+      seen.delete(value);
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Serialize Mermaid configuration for embedding in an inline script.
+ *
+ * @param config - The configuration
+ * @returns A JavaScript object literal, safe to place inside `<script>`
+ * @throws If the configuration contains values JSON cannot represent, such as
+ *   functions or class instances
+ */
+export const serializeMermaidConfig = (config: MermaidConfig): string => {
+  const problem = findUnserializable(config, 'mermaidConfig', new Set());
+  if (problem) {
+    throw new TypeError(
+      `[typedoc-plugin-mermaid] ${problem}, which cannot be serialized into the generated script; use only JSON values`,
+    );
+  }
+  // Escape "<" so strings like "</script>" can't end the script early
+  return JSON.stringify(config).replace(/</g, '\\u003c');
+};
+
+/**
+ * Load the `mermaidConfig` option's value.
+ *
+ * @param value - An object, or the path of a `.json` file or a JavaScript
+ *   module whose default export is the configuration
+ * @param baseDir - Directory relative paths are resolved against
+ * @returns The user configuration (not yet merged with the defaults)
+ * @throws If the file cannot be loaded or doesn't contain an object
+ */
+export const loadMermaidConfig = async (
+  value: unknown,
+  baseDir: string,
+): Promise<MermaidConfig> => {
+  if (value === undefined) {
+    return {};
+  }
+
+  let config: unknown = value;
+  if (typeof value === 'string') {
+    const path = resolve(baseDir, value);
+    try {
+      if (extname(path) === '.json') {
+        config = JSON.parse(await readFile(path, 'utf8'));
+      } else {
+        const mod = (await import(pathToFileURL(path).href)) as {
+          default?: unknown;
+        };
+        config = mod.default;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(
+        `[typedoc-plugin-mermaid] Failed to load mermaidConfig from ${path}: ${message}`,
+      );
+    }
+  }
+
+  if (!isPlainObject(config)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] mermaidConfig must be an object, or the path of a JSON or JavaScript file exporting one',
+    );
+  }
+  return config as MermaidConfig;
+};
@@ -0,0 +1,104 @@
+/**
+ * Output for documentation served with a Content Security Policy.
+ *
+ * Pages normally carry the plugin's styles and scripts inline. With
+ * `mermaidCsp` they're written once as files in the asset directory instead,
+ * and pages load them with `<link>` and `<script src>`, so a policy needn't
+ * allow inline code, and browsers cache them between pages. Either way,
+ * `mermaidCspNonce` adds a `nonce` attribute to each tag the plugin adds.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Name of the stylesheet, in the asset directory.
+ */
+export const MERMAID_STYLESHEET = 'mermaid.css';
+
+/**
+ * Name of the module which loads Mermaid and renders diagrams, in the asset
+ * directory.
+ */
+export const MERMAID_INIT_MODULE = 'mermaid-init.mjs';
+
+/**
+ * Name of the toolbar's module, in the asset directory.
+ */
+export const MERMAID_TOOLBAR_MODULE = 'mermaid-toolbar.mjs';
+
+/**
+ * Name of the viewer's module, in the asset directory.
+ */
+export const MERMAID_VIEWER_MODULE = 'mermaid-viewer.mjs';
+
+/**
+ * Matches the opening tag of a `<link>`, `<script>` or `<style>` element.
+ */
+const NONCE_TAG = /<(link|script|style)\b/g;
+
+/**
+ * Check that an option value can be a `nonce` attribute.
+ *
+ * Besides base64 nonces, this allows placeholders such as `{{nonce}}` for a
+ * server to replace with each response's nonce.
+ *
+ * @param value - The option value
+ * @throws If the value contains whitespace, quotes, `<`, `>` or `&`
+ */
+export const validateNonce = (value: string): void => {
+  if (/[\s"'<>&`]/.test(value)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] mermaidCspNonce must not contain whitespace, quotes, <, > or &',
+    );
+  }
+};
+
+/**
+ * Add a `nonce` attribute to each `<link>`, `<script>` and `<style>` element.
+ *
+ * @param html - HTML added by the plugin
+ * @param nonce - The nonce; without one, the HTML is left as it is
+ * @returns The HTML
+ */
+export const addNonce = (html: string, nonce?: string): string =>
+  nonce ? html.replace(NONCE_TAG, `<$1 nonce="${nonce}"`) : html;
+
+/**
+ * Extract a stylesheet from inline `<style>` elements.
+ *
+ * @param html - The `<style>` elements
+ * @returns Their CSS, in order
+ */
+export const toStylesheet = (html: string): string =>
+  [...html.matchAll(/<style>([\s\S]*?)<\/style>/g)]
+    .map(([, css]) => css!.trim())
+    .filter(Boolean)
+    .join('\n\n') + '\n';
+
+/**
+ * Extract a module from an inline module script.
+ *
+ * @param html - HTML containing a `<script type="module">` element
+ * @returns The script's code
+ */
+export const toModule = (html: string): string =>
+  (/<script type="module">([\s\S]*?)<\/script>/.exec(html)?.[1] ?? '').trim() +
+  '\n';
+
+/**
+ * Build the link to the stylesheet.
+ *
+ * @param href - URL of the stylesheet from the page
+ * @returns The `<link>` element
+ */
+export const getStylesheetLink = (href: string): string =>
+  `\n<link rel="stylesheet" href="${href}">\n`;
+
+/**
+ * Build the script element loading a module.
+ *
+ * @param src - URL of the module from the page
+ * @returns The `<script>` element
+ */
+export const getModuleScript = (src: string): string =>
+  `\n<script type="module" src="${src}"></script>\n`;
@@ -0,0 +1,277 @@
+/**
+ * Module dependency graphs generated from the reflection model.
+ *
+ * @packageDocumentation
+ */
+import { posix } from 'node:path';
+import {
+  type CommentDisplayPart,
+  type DeclarationReflection,
+  DocumentReflection,
+  makeRecursiveVisitor,
+  type ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+  type SomeType,
+} from 'typedoc';
+
+import { escapeLabel } from './hierarchy.js';
+import { toReflectionPlaceholder } from './links.js';
+
+/**
+ * Title of the generated module graph page or section.
+ */
+export const MODULE_GRAPH_TITLE = 'Module Dependencies';
+
+/**
+ * A generated module dependency graph.
+ */
+export interface ModuleGraph {
+  /**
+   * The `flowchart` diagram code.
+   */
+  code: string;
+
+  /**
+   * How many modules the diagram shows.
+   */
+  shown: number;
+
+  /**
+   * How many modules the project has.
+   */
+  total: number;
+}
+
+/**
+ * Where the module dependency graph is rendered.
+ *
+ * - `off`: nowhere
+ * - `page`: on a dedicated page
+ * - `index`: at the end of the project index (readme)
+ */
+export type ModuleGraphPlacement = 'index' | 'off' | 'page';
+
+/**
+ * Find the module a reflection belongs to.
+ *
+ * @param reflection - The reflection
+ * @returns The nearest enclosing module, or `undefined` if there is none
+ */
+const getModule = (
+  reflection: Reflection,
+): DeclarationReflection | undefined => {
+  let current: Reflection | undefined = reflection;
+  while (current && !current.kindOf(ReflectionKind.Module)) {
+    current = current.parent;
+  }
+  return current?.isDeclaration() ? current : undefined;
+};
+
+/**
+ * Find every reflection referenced by a module's types and re-exports.
+ *
+ * Nested modules are not included; they have their own dependencies.
+ *
+ * @param module - The module
+ * @returns The referenced reflections, possibly with duplicates
+ */
+const getReferencedReflections = (
+  module: DeclarationReflection,
+): Reflection[] => {
+  const found: Reflection[] = [];
+
+  const visitor = makeRecursiveVisitor({
+    reference: (type) => {
+      if (type.reflection) {
+        found.push(type.reflection);
+      }
+    },
+    reflection: (type) => visit(type.declaration),
+  });
+
+  const visit = (reflection: Reflection): void => {
+    if (reflection.isReference()) {
+      found.push(reflection.getTargetReflection());
+      return;
+    }
+
+    const types: (SomeType | undefined)[] = [];
+    if (reflection.isDeclaration()) {
+      types.push(
+        reflection.type,
+        ...(reflection.extendedTypes ?? []),
+        ...(reflection.implementedTypes ?? []),
+      );
+    } else if (reflection.isSignature() || reflection.isParameter()) {
+      types.push(reflection.type);
+    } else if (reflection.isTypeParameter()) {
+      types.push(reflection.type, reflection.default);
+    }
+    for (const type of types) {
+      type?.visit(visitor);
+    }
+
+    reflection.traverse((child) => {
+      if (!child.kindOf(ReflectionKind.Module)) {
+        visit(child);
+      }
+    });
+  };
+
+  visit(module);
+  return found;
+};
+
+/**
+ * Build a Mermaid `flowchart` of which modules reference which.
+ *
+ * Modules are grouped into subgraphs by source directory when they span more
+ * than one, and each links to its page. If the project has more modules than
+ * `maxNodes`, only the most connected are shown.
+ *
+ * @param project - The converted project
+ * @param options - Diagram limits
+ * @returns The graph, or `undefined` if the project has fewer than two modules
+ */
+export const buildModuleGraph = (
+  project: ProjectReflection,
+  { maxNodes }: { maxNodes: number },
+): ModuleGraph | undefined => {
+  const modules = project.getReflectionsByKind(
+    ReflectionKind.Module,
+  ) as DeclarationReflection[];
+  if (modules.length < 2) {
+    return undefined;
+  }
+
+  const dependencies = new Map<
+    DeclarationReflection,
+    Set<DeclarationReflection>
+  >();
+  const degree = new Map(modules.map((module) => [module, 0]));
+  for (const module of modules) {
+    const targets = new Set<DeclarationReflection>();
+    for (const reflection of getReferencedReflections(module)) {
+      const target = getModule(reflection);
+      if (target && target !== module && !targets.has(target)) {
+        targets.add(target);
+        degree.set(module, degree.get(module)! + 1);
+        degree.set(target, (degree.get(target) ?? 0) + 1);
+      }
+    }
+    dependencies.set(module, targets);
+  }
+
+  // Sorting is stable, so equally connected modules keep project order
+  const shown = new Set(
+    modules.length > maxNodes
+      ? [...modules]
+          .sort((a, b) => degree.get(b)! - degree.get(a)!)
+          .slice(0, maxNodes)
+      : modules,
+  );
+
+  const groups = new Map<string, DeclarationReflection[]>();
+  for (const module of modules) {
+    if (shown.has(module)) {
+      const file = module.sources?.[0]?.fileName;
+      const directory = file ? posix.dirname(file) : '.';
+      groups.set(directory, [...(groups.get(directory) ?? []), module]);
+    }
+  }
+
+  const nodeFor = (module: DeclarationReflection) =>
+    `M${module.id}["${escapeLabel(module.name)}"]`;
+
+  const lines = [
+    'flowchart LR',
+    `  accTitle: ${MODULE_GRAPH_TITLE}`,
+    '  accDescr: Arrows point from each module to the modules it references',
+  ];
+  if (groups.size > 1) {
+    let index = 0;
+    for (const [directory, members] of groups) {
+      lines.push(
+        `  subgraph D${index++}["${escapeLabel(directory)}"]`,
+        ...members.map((module) => `    ${nodeFor(module)}`),
+        '  end',
+      );
+    }
+  } else {
+    lines.push(...[...shown].map((module) => `  ${nodeFor(module)}`));
+  }
+  for (const [module, targets] of dependencies) {
+    for (const target of targets) {
+      if (shown.has(module) && shown.has(target)) {
+        lines.push(`  M${module.id} --> M${target.id}`);
+      }
+    }
+  }
+  for (const module of shown) {
+    lines.push(
+      `  click M${module.id} href "${toReflectionPlaceholder(module)}"`,
+    );
+  }
+
+  return {
+    code: lines.join('\n'),
+    shown: shown.size,
+    total: modules.length,
+  };
+};
+
+/**
+ * Add a module dependency graph to a project, either on its own page or at the
+ * end of the project index.
+ *
+ * @param project - The converted project
+ * @param options - Where to put the graph, and diagram limits
+ * @returns The graph, or `undefined` if none was added
+ */
+export const addModuleGraph = (
+  project: ProjectReflection,
+  {
+    maxNodes,
+    placement,
+  }: { maxNodes: number; placement: ModuleGraphPlacement },
+): ModuleGraph | undefined => {
+  if (placement === 'off') {
+    return undefined;
+  }
+  const graph = buildModuleGraph(project, { maxNodes });
+  if (!graph) {
+    return undefined;
+  }
+
+  const content: CommentDisplayPart[] = [];
+  if (graph.shown < graph.total) {
+    content.push({
+      kind: 'text',
+      text: `Showing the ${graph.shown} most connected of ${graph.total} modules.\n\n`,
+    });
+  }
+  content.push({ kind: 'code', text: '```mermaid\n' + graph.code + '\n```' });
+
+  if (placement === 'page') {
+    const document = new DocumentReflection(
+      MODULE_GRAPH_TITLE,
+      project,
+      content,
+      {},
+    );
+    project.addChild(document);
+    project.registerReflection(document, undefined, undefined);
+  } else {
+    project.readme = [
+      ...(project.readme ?? []),
+      {
+        kind: 'text',
+        text: `${project.readme?.length ? '\n\n' : ''}## ${MODULE_GRAPH_TITLE}\n\n`,
+      },
+      ...content,
+    ];
+  }
+
+  return graph;
+};
@@ -0,0 +1,423 @@
+/**
+ * Mermaid extensions: layout engines such as ELK, icon packs, and external
+ * diagram types, registered with Mermaid in the browser.
+ *
+ * Each extension is named by a URL, a path starting with `./`, `../` or `/`, or
+ * an installed package, optionally with a path within it. Packages are resolved
+ * from the working directory, since they're the project's dependencies rather
+ * than the plugin's. Files, and packages in local mode, are copied into the
+ * asset directory; packages in CDN mode load from {@link EXTENSION_CDN_URL} at
+ * their installed version. Files are copied into a directory named for the one
+ * they're in, so files of the same name from different directories don't
+ * overwrite each other.
+ *
+ * @packageDocumentation
+ */
+import { createHash } from 'node:crypto';
+import { cp, mkdir, readdir, readFile, stat } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, resolve } from 'node:path';
+
+/**
+ * CDN which packages load from when Mermaid does.
+ */
+export const EXTENSION_CDN_URL = 'https://unpkg.com/';
+
+/**
+ * A file or directory to copy into the asset directory.
+ */
+export interface MermaidAssetCopy {
+  /**
+   * Path of the file or directory.
+   */
+  from: string;
+
+  /**
+   * Path within the asset directory.
+   */
+  to: string;
+}
+
+/**
+ * An extension's module or icon pack, as loaded by the browser.
+ */
+export interface MermaidExtensionAsset {
+  /**
+   * Files and directories to copy into the asset directory; empty if the asset
+   * loads from elsewhere.
+   */
+  copy: MermaidAssetCopy[];
+
+  /**
+   * Path of the asset within the asset directory if it's copied, otherwise its
+   * URL.
+   */
+  url: string;
+}
+
+/**
+ * Extensions as configured, by URL, path or package.
+ */
+export interface MermaidExtensionOptions {
+  /**
+   * Modules whose default export is an external diagram definition.
+   */
+  diagrams: readonly string[];
+
+  /**
+   * Iconify JSON icon packs, keyed by name.
+   */
+  iconPacks: Readonly<Record<string, string>>;
+
+  /**
+   * Modules whose default export is an array of layout loaders.
+   */
+  layouts: readonly string[];
+}
+
+/**
+ * Extensions resolved to what the browser loads.
+ */
+export interface MermaidExtensions {
+  /**
+   * External diagram modules.
+   */
+  diagrams: MermaidExtensionAsset[];
+
+  /**
+   * Icon packs.
+   */
+  iconPacks: MermaidIconPack[];
+
+  /**
+   * Layout loader modules.
+   */
+  layouts: MermaidExtensionAsset[];
+}
+
+/**
+ * An icon pack, registered under the prefix diagrams use for its icons.
+ */
+export interface MermaidIconPack extends MermaidExtensionAsset {
+  /**
+   * The prefix, as in `logos:typescript`.
+   */
+  name: string;
+}
+
+/**
+ * Matches a URL, which is loaded as it is.
+ */
+const URL_SPECIFIER = /^https?:\/\//;
+
+/**
+ * Matches a package name and the path within it, if any.
+ */
+const PACKAGE_SPECIFIER = /^((?:@[^/]+\/)?[^/]+)(?:\/(.+))?$/;
+
+/**
+ * Matches the browser build Mermaid's own packages ship, next to a directory of
+ * its chunks.
+ */
+const ESM_MIN_BUILD = /\.esm\.min\.mjs$/;
+
+/**
+ * Matches a valid icon pack name.
+ */
+const ICON_PACK_NAME = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Iconify JSON packages keep their icons in this file.
+ */
+const ICON_PACK_FILE = 'icons.json';
+
+/**
+ * Check that an option value is a set of icon packs.
+ *
+ * @param value - The option value
+ * @throws If the value is not an object of icon pack names to strings
+ */
+export const validateIconPacks: (
+  value: unknown,
+) => asserts value is Record<string, string> = (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] mermaidIconPacks must be an object',
+    );
+  }
+  for (const [name, source] of Object.entries(value)) {
+    if (!ICON_PACK_NAME.test(name)) {
+      throw new TypeError(
+        `[typedoc-plugin-mermaid] Icon pack name "${name}" must be lowercase letters, digits and hyphens`,
+      );
+    }
+    if (typeof source !== 'string' || !source) {
+      throw new TypeError(
+        `[typedoc-plugin-mermaid] Icon pack "${name}" must be a URL, path or package name`,
+      );
+    }
+  }
+};
+
+/**
+ * Check whether a path exists.
+ *
+ * @param path - The path
+ * @returns `true` if it exists
+ */
+const exists = async (path: string): Promise<boolean> => {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Hash a directory's path, to name the directory its files are copied to.
+ *
+ * @param dir - Absolute path of the directory
+ * @returns The hash, in hex
+ */
+const getDirHash = (dir: string): string =>
+  createHash('sha256').update(dir).digest('hex').slice(0, 8);
+
+/**
+ * Find an installed package the way Node does, in the `node_modules` of a
+ * directory or its ancestors.
+ *
+ * @param name - The package name
+ * @param fromDir - Directory to start from
+ * @returns The package's directory, or `undefined` if it isn't installed
+ */
+const findPackageDir = async (
+  name: string,
+  fromDir: string,
+): Promise<string | undefined> => {
+  for (let dir = fromDir; ; dir = dirname(dir)) {
+    const packageDir = join(dir, 'node_modules', name);
+    if (await exists(join(packageDir, 'package.json'))) {
+      return packageDir;
+    }
+    if (dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Find the browser build of a package which names none: the one `*.esm.min.mjs`
+ * file in its `dist` directory.
+ *
+ * @param packageDir - The package's directory
+ * @returns The build's path within the package, or `undefined` if there's no
+ *   single build
+ */
+const findEsmBuild = async (
+  packageDir: string,
+): Promise<string | undefined> => {
+  let files: string[];
+  try {
+    files = await readdir(join(packageDir, 'dist'));
+  } catch {
+    return undefined;
+  }
+  const builds = files.filter((file) => ESM_MIN_BUILD.test(file));
+  return builds.length === 1 ? `dist/${builds[0]}` : undefined;
+};
+
+/**
+ * Get what to copy for a module: the module itself, and the directory of chunks
+ * it imports, if it was built the way Mermaid is.
+ *
+ * @param path - Path of the module
+ * @param to - Path of the module within the asset directory
+ * @returns The files and directories to copy
+ */
+const getModuleCopies = async (
+  path: string,
+  to: string,
+): Promise<MermaidAssetCopy[]> => {
+  const copies = [{ from: path, to }];
+  const chunks = `chunks/${basename(path, '.mjs')}`;
+  if (await exists(join(dirname(path), chunks))) {
+    copies.push({
+      from: join(dirname(path), chunks),
+      to: join(dirname(to), chunks),
+    });
+  }
+  return copies;
+};
+
+/**
+ * Resolve one extension's module or icon pack.
+ *
+ * @param specifier - URL, path or package the asset is named by
+ * @param kind - Whether it's a module or an icon pack
+ * @param context - Working directory, whether packages are copied, and where an
+ *   icon pack is copied to
+ * @returns The asset
+ * @throws If a file or package can't be found
+ */
+const resolveAsset = async (
+  specifier: string,
+  kind: 'iconPack' | 'module',
+  { copy, cwd, to }: { copy: boolean; cwd: string; to?: string },
+): Promise<MermaidExtensionAsset> => {
+  if (URL_SPECIFIER.test(specifier)) {
+    return { copy: [], url: specifier };
+  }
+
+  let path: string;
+  let url: string;
+  if (
+    isAbsolute(specifier) ||
+    specifier.startsWith('./') ||
+    specifier.startsWith('../')
+  ) {
+    path = resolve(cwd, specifier);
+    if (!(await exists(path))) {
+      throw new Error(
+        `[typedoc-plugin-mermaid] Mermaid extension ${specifier} not found at ${path}`,
+      );
+    }
+    url = to ?? `extensions/${getDirHash(dirname(path))}/${basename(path)}`;
+  } else {
+    const [, name, subpath] = PACKAGE_SPECIFIER.exec(specifier) ?? [];
+    const packageDir = name && (await findPackageDir(name, cwd));
+    if (!packageDir) {
+      throw new Error(
+        `[typedoc-plugin-mermaid] Mermaid extension package ${name ?? specifier} not found. Install it with: npm install ${name ?? specifier} -D`,
+      );
+    }
+    const file =
+      subpath ??
+      (kind === 'iconPack' ? ICON_PACK_FILE : await findEsmBuild(packageDir));
+    path = join(packageDir, file ?? '');
+    if (!file || !(await exists(path))) {
+      throw new Error(
+        `[typedoc-plugin-mermaid] Could not find the ${kind === 'iconPack' ? 'icons' : 'browser build'} of ${specifier}; name the file, as in ${name}/dist/example.esm.min.mjs`,
+      );
+    }
+    if (!copy) {
+      const { version } = JSON.parse(
+        await readFile(join(packageDir, 'package.json'), 'utf8'),
+      ) as { version: string };
+      return {
+        copy: [],
+        url: `${EXTENSION_CDN_URL}${name}@${version}/${file}`,
+      };
+    }
+    url = to ?? `${name}/${file}`;
+  }
+
+  return {
+    copy:
+      kind === 'module'
+        ? await getModuleCopies(path, url)
+        : [{ from: path, to: url }],
+    url,
+  };
+};
+
+/**
+ * Resolve configured extensions to what the browser loads.
+ *
+ * @param options - Extensions, by URL, path or package
+ * @param context - Working directory to resolve paths and packages against, and
+ *   whether packages are copied rather than loaded from the CDN
+ * @returns The resolved extensions
+ * @throws If a file or package can't be found
+ */
+export const resolveMermaidExtensions = async (
+  { diagrams, iconPacks, layouts }: MermaidExtensionOptions,
+  context: { copy: boolean; cwd: string },
+): Promise<MermaidExtensions> => ({
+  diagrams: await Promise.all(
+    diagrams.map((specifier) => resolveAsset(specifier, 'module', context)),
+  ),
+  iconPacks: await Promise.all(
+    Object.entries(iconPacks).map(async ([name, specifier]) => ({
+      ...(await resolveAsset(specifier, 'iconPack', {
+        ...context,
+        to: `icons/${name}.json`,
+      })),
+      name,
+    })),
+  ),
+  layouts: await Promise.all(
+    layouts.map((specifier) => resolveAsset(specifier, 'module', context)),
+  ),
+});
+
+/**
+ * Copy the extension files which are served with the docs.
+ *
+ * @param extensions - The resolved extensions
+ * @param destDir - The asset directory
+ * @returns Number of files and directories copied
+ */
+export const copyMermaidExtensions = async (
+  { diagrams, iconPacks, layouts }: MermaidExtensions,
+  destDir: string,
+): Promise<number> => {
+  const copies = [...diagrams, ...iconPacks, ...layouts].flatMap(
+    ({ copy }) => copy,
+  );
+  for (const { from, to } of copies) {
+    await mkdir(dirname(join(destDir, to)), { recursive: true });
+    await cp(from, join(destDir, to), { recursive: true });
+  }
+  return copies.length;
+};
+
+/**
+ * Generate the script which registers extensions, to follow Mermaid's import.
+ *
+ * Icon packs are only fetched once a diagram uses one of their icons. They're
+ * fetched relative to the script, as its imports are, rather than the page, so
+ * the same module works for pages in any directory.
+ *
+ * @param extensions - The resolved extensions
+ * @param assetDir - URL of the asset directory from the script, ending in `/`
+ * @returns The script, or an empty string if there are no extensions
+ */
+export const getExtensionsScript = (
+  { diagrams, iconPacks, layouts }: MermaidExtensions,
+  assetDir: string,
+): string => {
+  const getUrl = ({ copy, url }: MermaidExtensionAsset) =>
+    JSON.stringify(copy.length ? assetDir + url : url);
+
+  const lines = [
+    ...layouts.map(
+      (layout, index) =>
+        `import mermaidLayouts${index} from ${getUrl(layout)};`,
+    ),
+    ...diagrams.map(
+      (diagram, index) =>
+        `import mermaidDiagram${index} from ${getUrl(diagram)};`,
+    ),
+    ...layouts.map(
+      (_, index) => `mermaid.registerLayoutLoaders(mermaidLayouts${index});`,
+    ),
+  ];
+  if (iconPacks.length) {
+    lines.push(
+      `mermaid.registerIconPacks([${iconPacks
+        .map(
+          (pack) =>
+            `{ name: ${JSON.stringify(pack.name)}, loader: () => fetch(new URL(${getUrl(pack)}, import.meta.url)).then((res) => res.json()) }`,
+        )
+        .join(', ')}]);`,
+    );
+  }
+  if (diagrams.length) {
+    lines.push(
+      `await mermaid.registerExternalDiagrams([${diagrams
+        .map((_, index) => `mermaidDiagram${index}`)
+        .join(', ')}]);`,
+    );
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,204 @@
+/**
+ * Captions, anchors and accessibility metadata for diagram figures.
+ *
+ * @packageDocumentation
+ */
+import { createHash } from 'node:crypto';
+
+import { type CollectedDiagram } from './collect.js';
+
+/**
+ * Titles and descriptions declared in a diagram's source.
+ */
+export interface MermaidDiagramMetadata {
+  /**
+   * The `accDescr` accessible description.
+   */
+  accDescr?: string;
+
+  /**
+   * The `accTitle` accessible title.
+   */
+  accTitle?: string;
+
+  /**
+   * The `title` from the diagram's front matter.
+   */
+  title?: string;
+}
+
+/**
+ * Figure numbers and anchor ids already used on a page.
+ */
+export interface MermaidFigureState {
+  /**
+   * How many figures the page has so far.
+   */
+  count: number;
+
+  /**
+   * Anchor ids used so far.
+   */
+  ids: Set<string>;
+
+  /**
+   * Whether captions are prefixed with "Figure N".
+   */
+  numbered: boolean;
+}
+
+/**
+ * Matches YAML front matter at the start of a diagram, including the line break
+ * after its closing `---`.
+ */
+export const FRONT_MATTER =
+  /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Matches a `title` key in front matter.
+ */
+const FRONT_MATTER_TITLE = /^title:[ \t]*(.+?)[ \t]*$/m;
+
+/**
+ * Matches a single-line `accTitle`.
+ */
+const ACC_TITLE = /^[ \t]*accTitle[ \t]*:[ \t]*(.+?)[ \t]*$/m;
+
+/**
+ * Matches a single-line `accDescr`, or the body of a multi-line `accDescr {}`.
+ */
+const ACC_DESCR =
+  /^[ \t]*accDescr(?:[ \t]*:[ \t]*(.+?)[ \t]*$|[ \t]*\{([\s\S]*?)\})/m;
+
+/**
+ * Split a diagram into its front matter and the rest of its code.
+ *
+ * Mermaid only recognizes front matter at the very start of a diagram, so
+ * anything added to the code, such as an `%%{init}%%` directive, must go after
+ * it.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The front matter (empty if there is none) and the remaining code
+ */
+export const splitFrontMatter = (code: string): [string, string] => {
+  const frontMatter = FRONT_MATTER.exec(code)?.[0] ?? '';
+  return [frontMatter, code.slice(frontMatter.length)];
+};
+
+/**
+ * Remove matching quotes around a YAML scalar.
+ *
+ * @param value - The scalar
+ * @returns The unquoted value
+ */
+const unquote = (value: string): string =>
+  /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+
+/**
+ * Read the front matter title and accessibility metadata of a diagram.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The metadata found
+ */
+export const getDiagramMetadata = (code: string): MermaidDiagramMetadata => {
+  const metadata: MermaidDiagramMetadata = {};
+  const [frontMatter, body] = splitFrontMatter(code);
+
+  const title = FRONT_MATTER_TITLE.exec(frontMatter)?.[1];
+  if (title) {
+    metadata.title = unquote(title);
+  }
+  const accTitle = ACC_TITLE.exec(body)?.[1];
+  if (accTitle) {
+    metadata.accTitle = accTitle;
+  }
+  const accDescr = ACC_DESCR.exec(body);
+  const description = (accDescr?.[1] ?? accDescr?.[2])
+    ?.replace(/\s+/g, ' ')
+    .trim();
+  if (description) {
+    metadata.accDescr = description;
+  }
+
+  return metadata;
+};
+
+/**
+ * Find diagrams without an accessible description.
+ *
+ * @param diagrams - The diagrams to check
+ * @returns The diagrams without an `accDescr`
+ */
+export const findUndescribedDiagrams = (
+  diagrams: Iterable<CollectedDiagram>,
+): CollectedDiagram[] =>
+  [...diagrams].filter(({ code }) => !getDiagramMetadata(code).accDescr);
+
+/**
+ * Create the figure state for a page.
+ *
+ * @param numbered - Whether captions are prefixed with "Figure N"
+ * @returns Fresh state
+ */
+export const createFigureState = (numbered = false): MermaidFigureState => ({
+  count: 0,
+  ids: new Set(),
+  numbered,
+});
+
+/**
+ * Number the next figure on a page and build its caption.
+ *
+ * @param state - The page's figure state
+ * @param title - The diagram's title, if it has one
+ * @returns The caption, or `undefined` if the figure has none
+ */
+export const getFigureCaption = (
+  state: MermaidFigureState,
+  title?: string,
+): string | undefined => {
+  const number = ++state.count;
+  if (!state.numbered) {
+    return title;
+  }
+  return title ? `Figure ${number}: ${title}` : `Figure ${number}`;
+};
+
+/**
+ * Choose a figure's anchor id, unique within its page.
+ *
+ * An explicit id is used as-is. Otherwise the id is a slug of the title, or a
+ * hash of the code for untitled diagrams, so it stays the same between builds.
+ *
+ * @param state - The page's figure state
+ * @param code - Plain Mermaid code
+ * @param title - The diagram's title, if it has one
+ * @param explicitId - An id given in the block's options
+ * @returns The anchor id
+ */
+export const getFigureId = (
+  state: MermaidFigureState,
+  code: string,
+  title?: string,
+  explicitId?: string,
+): string => {
+  if (explicitId) {
+    state.ids.add(explicitId);
+    return explicitId;
+  }
+
+  const slug = title
+    ?.normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const base = `mermaid-${slug || createHash('sha256').update(code).digest('hex').slice(0, 8)}`;
+
+  let id = base;
+  for (let suffix = 2; state.ids.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  state.ids.add(id);
+  return id;
+};
@@ -0,0 +1,334 @@
+/**
+ * A generated page listing every diagram in the documentation.
+ *
+ * Diagrams are indexed as each HTML page is transformed, since their anchors
+ * and pages are only known then. Once every page is written, the index is
+ * rendered in the TypeDoc theme as `diagrams.html`, grouped by module and
+ * diagram type, with a preview of each diagram linking to where it appears.
+ *
+ * @packageDocumentation
+ */
+import {
+  type DefaultTheme,
+  type DefaultThemeRenderContext,
+  JSX,
+  type PageEvent,
+  type ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+} from 'typedoc';
+
+import { type CollectedDiagram } from './collect.js';
+import { splitFrontMatter } from './figures.js';
+import { toReflectionPlaceholder } from './links.js';
+
+/**
+ * URL of the diagrams page, relative to the output directory.
+ */
+export const DIAGRAMS_PAGE_URL = 'diagrams.html';
+
+/**
+ * Title of the diagrams page, and of the navigation link to it.
+ */
+export const DIAGRAMS_PAGE_TITLE = 'Diagrams';
+
+/**
+ * A diagram listed on the diagrams page.
+ */
+export interface IndexedDiagram {
+  /**
+   * The figure's anchor id on its page.
+   */
+  anchor: string;
+
+  /**
+   * The module the diagram is documented in, or the project for diagrams in the
+   * readme and project documents.
+   */
+  module: Reflection;
+
+  /**
+   * URL of the page the diagram appears on, relative to the output directory.
+   */
+  pageUrl: string;
+
+  /**
+   * HTML of the preview shown on the diagrams page; reflection links in it are
+   * still placeholders.
+   */
+  preview: string;
+
+  /**
+   * The reflection whose documentation contains the diagram.
+   */
+  reflection: Reflection;
+
+  /**
+   * The diagram's title, if it has one.
+   */
+  title?: string;
+
+  /**
+   * The keyword declaring the diagram's type, such as `flowchart`.
+   */
+  type: string;
+}
+
+/**
+ * Matches the `%%{init}%%` directive a block's theme override adds.
+ */
+const INIT_DIRECTIVE = /^%%\{init:.*\}%%$/;
+
+/**
+ * Check whether a collected diagram is the one a figure shows, allowing for the
+ * theme override collected code includes but figure code doesn't.
+ *
+ * @param collected - Code of a collected diagram
+ * @param code - Plain code of the figure
+ * @returns `true` if they're the same diagram
+ */
+const isSameDiagram = (collected: string, code: string): boolean => {
+  if (collected === code) {
+    return true;
+  }
+  const [frontMatter, body] = splitFrontMatter(code);
+  return (
+    collected.startsWith(frontMatter) &&
+    collected.endsWith(`\n${body}`) &&
+    INIT_DIRECTIVE.test(collected.slice(frontMatter.length, -body.length - 1))
+  );
+};
+
+/**
+ * Find the reflection whose documentation contains a diagram on a page.
+ *
+ * Members are documented on their parent's page, so the owner is the first
+ * reflection on the page with the same diagram, or else the page's own.
+ *
+ * @param code - Plain code of the diagram
+ * @param page - The page's model and URL
+ * @param diagrams - Every diagram in the project
+ * @param getUrl - Returns a reflection's URL, with its anchor, if it has one
+ * @returns The owning reflection
+ */
+export const findDiagramOwner = (
+  code: string,
+  page: { model: Reflection; url: string },
+  diagrams: readonly CollectedDiagram[],
+  getUrl: (reflection: Reflection) => string | undefined,
+): Reflection =>
+  diagrams.find(
+    ({ code: collected, reflection }) =>
+      getUrl(reflection)?.split('#')[0] === page.url &&
+      isSameDiagram(collected, code),
+  )?.reflection ?? page.model;
+
+/**
+ * Get the module a reflection is documented in.
+ *
+ * @param reflection - The reflection
+ * @returns Its nearest module, or the project if it isn't in one
+ */
+export const getDiagramModule = (reflection: Reflection): Reflection => {
+  let current = reflection;
+  while (!current.kindOf(ReflectionKind.Module) && current.parent) {
+    current = current.parent;
+  }
+  return current;
+};
+
+/**
+ * Group diagrams by module, then by diagram type.
+ *
+ * The project comes first, then modules and types by name; diagrams keep the
+ * order of their pages.
+ *
+ * @param diagrams - The indexed diagrams
+ * @returns The groups
+ */
+export const groupIndexedDiagrams = (
+  diagrams: readonly IndexedDiagram[],
+): [Reflection, [string, IndexedDiagram[]][]][] => {
+  const modules = new Map<Reflection, Map<string, IndexedDiagram[]>>();
+  for (const diagram of diagrams) {
+    let types = modules.get(diagram.module);
+    if (!types) {
+      modules.set(
+        diagram.module,
+        (types = new Map<string, IndexedDiagram[]>()),
+      );
+    }
+    types.set(diagram.type, [...(types.get(diagram.type) ?? []), diagram]);
+  }
+  return [...modules]
+    .sort(
+      ([a], [b]) =>
+        Number(b.isProject()) - Number(a.isProject()) ||
+        a.getFullName().localeCompare(b.getFullName()),
+    )
+    .map(([module, types]) => [
+      module,
+      [...types].sort(([a], [b]) => a.localeCompare(b)),
+    ]);
+};
+
+/**
+ * Styles for the diagrams page: a grid of cards, each with a small preview.
+ */
+export const DIAGRAMS_PAGE_STYLE = `
+.mermaid-index-list {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(18em, 1fr));
+  gap: 1em;
+  padding: 0;
+  list-style: none;
+}
+
+.mermaid-index-item {
+  padding: 0.5em 1em;
+  border: 1px solid var(--color-accent, rgba(127, 127, 127, 0.3));
+  border-radius: 0.5em;
+}
+
+.mermaid-index-item > .mermaid-block {
+  --mermaid-max-height: 12em;
+  margin-bottom: 0;
+}
+
+.mermaid-index-owner {
+  margin: 0.25em 0 0;
+  font-size: 0.875em;
+}
+`;
+
+/**
+ * Render one diagram's card.
+ *
+ * @param diagram - The diagram
+ * @returns The list item
+ */
+const renderDiagramItem = (diagram: IndexedDiagram): JSX.Element =>
+  JSX.createElement(
+    'li',
+    { class: 'mermaid-index-item' },
+    JSX.createElement(
+      'a',
+      { href: `${diagram.pageUrl}#${diagram.anchor}` },
+      diagram.title ?? `Untitled ${diagram.type}`,
+    ),
+    JSX.createElement(
+      'p',
+      { class: 'mermaid-index-owner' },
+      JSX.createElement(
+        'a',
+        { href: toReflectionPlaceholder(diagram.reflection) },
+        diagram.reflection.getFriendlyFullName(),
+      ),
+    ),
+    JSX.createElement(JSX.Raw, { html: diagram.preview }),
+  );
+
+/**
+ * Render the diagrams page in the TypeDoc theme.
+ *
+ * Each module is added to the page's headings, so it's listed under "On This
+ * Page". Reflection links are left as placeholders, for the caller to resolve.
+ *
+ * @param theme - The theme rendering the documentation
+ * @param page - The page, whose model is the project and whose URL is
+ *   {@link DIAGRAMS_PAGE_URL}
+ * @param diagrams - The indexed diagrams
+ * @param externalStyle - Whether to leave out the page's styles, for a
+ *   stylesheet which includes {@link DIAGRAMS_PAGE_STYLE}
+ * @param nonce - Nonce for the page's `<style>`
+ * @returns The page HTML
+ */
+export const renderDiagramsPage = (
+  theme: DefaultTheme,
+  page: PageEvent<ProjectReflection>,
+  diagrams: readonly IndexedDiagram[],
+  externalStyle = false,
+  nonce?: string,
+): string => {
+  const groups = groupIndexedDiagrams(diagrams);
+  for (const [module] of groups) {
+    page.pageHeadings.push({
+      kind: module.kind,
+      link: `#mermaid-index-${module.id}`,
+      text: module.getFullName(),
+    });
+  }
+
+  const template = (): JSX.Element =>
+    JSX.createElement(
+      JSX.Fragment,
+      null,
+      externalStyle
+        ? null
+        : JSX.createElement(
+            'style',
+            { nonce },
+            JSX.createElement(JSX.Raw, { html: DIAGRAMS_PAGE_STYLE }),
+          ),
+      ...groups.map(([module, types]) =>
+        JSX.createElement(
+          'section',
+          { class: 'tsd-panel-group' },
+          JSX.createElement(
+            'h2',
+            { id: `mermaid-index-${module.id}` },
+            module.getFullName(),
+          ),
+          ...types.map(([type, typed]) =>
+            JSX.createElement(
+              'section',
+              { class: 'tsd-panel' },
+              JSX.createElement('h3', null, type),
+              JSX.createElement(
+                'ul',
+                { class: 'mermaid-index-list' },
+                ...typed.map(renderDiagramItem),
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+
+  // The layout titles and heads project pages with the project's name alone
+  return (
+    '<!DOCTYPE html>' +
+    JSX.renderElement(theme.defaultLayoutTemplate(page, template))
+      .replace(
+        /<title>([\s\S]*?)<\/title>/,
+        `<title>${DIAGRAMS_PAGE_TITLE} | $1</title>`,
+      )
+      .replace(
+        /(<div class="tsd-page-title">[\s\S]*?<h1[^>]*>)[\s\S]*?(<\/h1>)/,
+        `$1${DIAGRAMS_PAGE_TITLE}$2`,
+      ) +
+    '\n'
+  );
+};
+
+/**
+ * Render the navigation link to the diagrams page.
+ *
+ * @param context - Render context of the page the link is on
+ * @returns The link, above the site navigation
+ */
+export const renderDiagramsLink = (
+  context: DefaultThemeRenderContext,
+): JSX.Element =>
+  JSX.createElement(
+    'nav',
+    { class: 'tsd-navigation', id: 'mermaid-diagrams-link' },
+    JSX.createElement(
+      'a',
+      {
+        class: context.page.url === DIAGRAMS_PAGE_URL ? 'current' : undefined,
+        href: context.relativeURL(DIAGRAMS_PAGE_URL),
+      },
+      DIAGRAMS_PAGE_TITLE,
+    ),
+  );
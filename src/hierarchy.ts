@@ -0,0 +1,270 @@
+/**
+ * Class and interface hierarchy diagrams generated from the reflection model.
+ *
+ * @packageDocumentation
+ */
+import {
+  Comment,
+  CommentTag,
+  type DeclarationReflection,
+  type ProjectReflection,
+  ReflectionKind,
+  type SomeType,
+} from 'typedoc';
+
+import { toReflectionPlaceholder } from './links.js';
+
+/**
+ * Modifier tag requesting a hierarchy diagram for a class or interface.
+ *
+ * The generated diagram is added to the comment as a block tag of the same
+ * name.
+ */
+export const MERMAID_HIERARCHY_TAG = '@mermaidHierarchy';
+
+/**
+ * Mermaid class applied to the node of the documented reflection.
+ */
+const CURRENT_CLASS = 'mermaidCurrent';
+
+/**
+ * Options for generating a hierarchy diagram.
+ */
+export interface HierarchyDiagramOptions {
+  /**
+   * How many levels of ancestors and descendants to include.
+   */
+  depth: number;
+
+  /**
+   * Whether to list each class's own properties and methods.
+   */
+  members: boolean;
+}
+
+/**
+ * A class or interface in a hierarchy diagram.
+ */
+interface HierarchyNode {
+  id: string;
+  label: string;
+  reflection?: DeclarationReflection;
+}
+
+/**
+ * Escape text for use in a quoted Mermaid label.
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+export const escapeLabel = (text: string): string =>
+  text.replace(/"/g, '#quot;');
+
+/**
+ * List a reflection's own properties and methods in Mermaid class member
+ * syntax.
+ *
+ * @param reflection - The class or interface
+ * @returns One line per member
+ */
+const getMembers = (reflection: DeclarationReflection): string[] =>
+  (reflection.children ?? [])
+    .filter(
+      (child) =>
+        !child.inheritedFrom &&
+        /^[\w$]+$/.test(child.name) &&
+        child.kindOf(
+          ReflectionKind.Accessor |
+            ReflectionKind.Method |
+            ReflectionKind.Property,
+        ),
+    )
+    .map((child) => {
+      const visibility = child.flags.isPrivate
+        ? '-'
+        : child.flags.isProtected
+          ? '#'
+          : '+';
+      const suffix = child.flags.isStatic ? '$' : '';
+      const parens = child.kindOf(ReflectionKind.Method) ? '()' : '';
+      return `${visibility}${child.name}${parens}${suffix}`;
+    });
+
+/**
+ * Build a Mermaid `classDiagram` of a class or interface's ancestors,
+ * descendants and implemented interfaces.
+ *
+ * Each node documented in the project links to its page; the documented
+ * reflection itself is highlighted.
+ *
+ * @param reflection - The class or interface
+ * @param options - What to include
+ * @returns The diagram code, or `undefined` if the reflection has no relations
+ *   to show
+ */
+export const buildHierarchyDiagram = (
+  reflection: DeclarationReflection,
+  { depth, members }: HierarchyDiagramOptions,
+): string | undefined => {
+  const nodes = new Map<string, HierarchyNode>();
+  const edges = new Set<string>();
+
+  const nodeFor = (
+    target: DeclarationReflection | SomeType,
+  ): HierarchyNode | undefined => {
+    let resolved: DeclarationReflection | undefined;
+    let name: string;
+    if ('variant' in target) {
+      resolved = target;
+      name = target.name;
+    } else if (target.type === 'reference') {
+      resolved = target.reflection?.isDeclaration()
+        ? target.reflection
+        : undefined;
+      name = target.name;
+    } else {
+      return undefined;
+    }
+
+    const key = resolved ? `R${resolved.id}` : `X${name}`;
+    let node = nodes.get(key);
+    if (!node) {
+      node = {
+        id: resolved ? key : `X${nodes.size}`,
+        label: name,
+        reflection: resolved,
+      };
+      nodes.set(key, node);
+    }
+    return node;
+  };
+
+  const walkUp = (child: DeclarationReflection, level: number) => {
+    const childNode = nodeFor(child)!;
+    for (const type of child.implementedTypes ?? []) {
+      const node = nodeFor(type);
+      if (node) {
+        edges.add(`${node.id} <|.. ${childNode.id}`);
+      }
+    }
+    if (level >= depth) {
+      return;
+    }
+    for (const type of child.extendedTypes ?? []) {
+      const node = nodeFor(type);
+      if (node) {
+        edges.add(`${node.id} <|-- ${childNode.id}`);
+        if (node.reflection) {
+          walkUp(node.reflection, level + 1);
+        }
+      }
+    }
+  };
+
+  const walkDown = (parent: DeclarationReflection, level: number) => {
+    if (level >= depth) {
+      return;
+    }
+    const parentNode = nodeFor(parent)!;
+    for (const [types, arrow] of [
+      [parent.extendedBy, '<|--'],
+      [parent.implementedBy, '<|..'],
+    ] as const) {
+      for (const type of types ?? []) {
+        const node = nodeFor(type);
+        if (node) {
+          edges.add(`${parentNode.id} ${arrow} ${node.id}`);
+          if (node.reflection) {
+            walkDown(node.reflection, level + 1);
+          }
+        }
+      }
+    }
+  };
+
+  const current = nodeFor(reflection)!;
+  walkUp(reflection, 0);
+  walkDown(reflection, 0);
+
+  if (!edges.size) {
+    return undefined;
+  }
+
+  const name = escapeLabel(reflection.name);
+  const lines = [
+    'classDiagram',
+    `  accTitle: Hierarchy of ${name}`,
+    `  accDescr: ${name} with its ancestors, descendants and implemented interfaces`,
+  ];
+  for (const node of nodes.values()) {
+    const body = members && node.reflection ? getMembers(node.reflection) : [];
+    const declaration = `  class ${node.id}["${escapeLabel(node.label)}"]`;
+    if (body.length) {
+      lines.push(
+        `${declaration} {`,
+        ...body.map((member) => `    ${member}`),
+        '  }',
+      );
+    } else {
+      lines.push(declaration);
+    }
+    if (node.reflection?.kindOf(ReflectionKind.Interface)) {
+      lines.push(`  <<interface>> ${node.id}`);
+    }
+  }
+  lines.push(...[...edges].map((edge) => `  ${edge}`));
+  for (const node of nodes.values()) {
+    if (node.reflection && node !== current) {
+      lines.push(
+        `  click ${node.id} href "${toReflectionPlaceholder(node.reflection)}"`,
+      );
+    }
+  }
+  lines.push(
+    `  class ${current.id}:::${CURRENT_CLASS}`,
+    `  classDef ${CURRENT_CLASS} fill:#fbbf24,stroke:#b45309,color:#000`,
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Add hierarchy diagrams to classes and interfaces.
+ *
+ * Each diagram is added to the reflection's comment as a
+ * {@link MERMAID_HIERARCHY_TAG} block tag containing a `mermaid` code block, and
+ * the modifier tag which requested it is removed.
+ *
+ * @param project - The converted project
+ * @param options - What to include, and whether to add diagrams to every class
+ *   and interface rather than only those tagged
+ */
+export const addHierarchyDiagrams = (
+  project: ProjectReflection,
+  options: HierarchyDiagramOptions & { auto: boolean },
+): void => {
+  const reflections = project.getReflectionsByKind(
+    ReflectionKind.Class | ReflectionKind.Interface,
+  ) as DeclarationReflection[];
+
+  for (const reflection of reflections) {
+    const tagged =
+      reflection.comment?.hasModifier(MERMAID_HIERARCHY_TAG) ?? false;
+    if (!tagged && !options.auto) {
+      continue;
+    }
+    reflection.comment?.removeModifier(MERMAID_HIERARCHY_TAG);
+
+    const code = buildHierarchyDiagram(reflection, options);
+    if (!code) {
+      continue;
+    }
+
+    reflection.comment ??= new Comment();
+    reflection.comment.blockTags.push(
+      new CommentTag(MERMAID_HIERARCHY_TAG, [
+        { kind: 'code', text: '```mermaid\n' + code + '\n```' },
+      ]),
+    );
+  }
+};
@@ -0,0 +1,177 @@
+/**
+ * Support for the `{@mermaidInclude}` inline tag.
+ *
+ * @packageDocumentation
+ */
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import {
+  type CommentDisplayPart,
+  type ProjectReflection,
+  type Reflection,
+} from 'typedoc';
+
+/**
+ * Inline tag which includes a Mermaid diagram from an external file.
+ */
+export const MERMAID_INCLUDE_TAG = '@mermaidInclude';
+
+/**
+ * Context for resolving and reading included diagram files.
+ */
+export interface MermaidIncludeContext {
+  /**
+   * Directory which bare paths (and all paths, if the comment's source file is
+   * unknown) are resolved against.
+   */
+  baseDir: string;
+
+  /**
+   * Called for each file an include looks up, whether or not it exists.
+   */
+  onFile?: (path: string) => void;
+
+  /**
+   * Called when an included file cannot be read.
+   */
+  onMissing?: (path: string, error: string) => void;
+
+  /**
+   * Path of the file the comment comes from, if known.
+   */
+  sourcePath?: string;
+}
+
+/**
+ * An included file which could not be read.
+ */
+export interface MissingMermaidInclude {
+  /**
+   * Why the file could not be read.
+   */
+  error: string;
+
+  /**
+   * Absolute path of the file.
+   */
+  path: string;
+
+  /**
+   * The reflection whose documentation includes the file.
+   */
+  reflection: Reflection;
+}
+
+/**
+ * Resolve the target of a `{@mermaidInclude}` tag to an absolute path.
+ *
+ * Paths starting with `./` or `../` are relative to the comment's source file;
+ * other relative paths are relative to the base directory.
+ *
+ * @param target - The path given in the tag
+ * @param context - Where the tag was found
+ * @returns The absolute path
+ */
+export const resolveMermaidInclude = (
+  target: string,
+  {
+    baseDir,
+    sourcePath,
+  }: Pick<MermaidIncludeContext, 'baseDir' | 'sourcePath'>,
+): string => {
+  if (sourcePath && /^\.\.?[\\/]/.test(target)) {
+    return resolve(dirname(sourcePath), target);
+  }
+  return resolve(baseDir, target);
+};
+
+/**
+ * Replace `{@mermaidInclude}` tags in display parts with fenced `mermaid`
+ * blocks holding the included files' contents.
+ *
+ * Tags whose file cannot be read are left in place.
+ *
+ * @param parts - Display parts from a comment, readme or document
+ * @param context - How to resolve and report included files
+ * @returns The expanded display parts
+ */
+export const expandMermaidIncludes = (
+  parts: readonly CommentDisplayPart[],
+  context: MermaidIncludeContext,
+): CommentDisplayPart[] =>
+  parts.map((part) => {
+    if (part.kind !== 'inline-tag' || part.tag !== MERMAID_INCLUDE_TAG) {
+      return part;
+    }
+
+    const path = resolveMermaidInclude(part.text.trim(), context);
+    context.onFile?.(path);
+
+    let code: string;
+    try {
+      code = readFileSync(path, 'utf8').trim();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      context.onMissing?.(path, message);
+      return part;
+    }
+
+    // Surround with newlines so the fence starts on its own line
+    return { kind: 'code', text: '\n```mermaid\n' + code + '\n```\n' };
+  });
+
+/**
+ * Expand every `{@mermaidInclude}` tag in a project.
+ *
+ * @param project - The converted project
+ * @param context - How to resolve and report included files; `sourcePath` is
+ *   filled in per reflection, and for each document, from the file it was read
+ *   from
+ * @param readmePath - Path of the project's readme, if any
+ * @returns The includes which could not be read
+ */
+export const expandAllMermaidIncludes = (
+  project: ProjectReflection,
+  context: Omit<MermaidIncludeContext, 'onMissing' | 'sourcePath'>,
+  readmePath?: string,
+): MissingMermaidInclude[] => {
+  const missing: MissingMermaidInclude[] = [];
+
+  for (const reflection of [project, ...Object.values(project.reflections)]) {
+    const expand = (
+      parts: readonly CommentDisplayPart[],
+      sourcePath?: string,
+    ) =>
+      expandMermaidIncludes(parts, {
+        ...context,
+        onMissing: (path, error) => missing.push({ error, path, reflection }),
+        sourcePath,
+      });
+
+    const { comment } = reflection;
+    if (comment) {
+      const sourcePath =
+        comment.sourcePath ??
+        (reflection.isDeclaration() || reflection.isSignature()
+          ? reflection.sources?.[0]?.fullFileName
+          : undefined);
+      comment.summary = expand(comment.summary, sourcePath);
+      for (const tag of comment.blockTags) {
+        tag.content = expand(tag.content, sourcePath);
+      }
+    }
+    if (reflection.isDocument()) {
+      reflection.content = expand(
+        reflection.content,
+        project.files.getReflectionPath(reflection),
+      );
+    }
+    if (reflection.isProject() && reflection.readme) {
+      reflection.readme = expand(reflection.readme, readmePath);
+    } else if (reflection.isDeclaration() && reflection.readme) {
+      reflection.readme = expand(reflection.readme);
+    }
+  }
+
+  return missing;
+};
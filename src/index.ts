@@ -6,16 +6,366 @@
  * @packageDocumentation
  * @see {@link https://github.com/kamiazya/typedoc-plugin-mermaid}
  */
-import { cp, mkdir } from 'node:fs/promises';
+import { type MermaidConfig } from 'mermaid';
+import { createHash } from 'node:crypto';
+import { cp, mkdir, writeFile } from 'node:fs/promises';
 import { createRequire } from 'node:module';
 import { dirname, join } from 'node:path';
 import {
-  type Application,
-  type PageEvent,
+  Application,
+  Converter,
+  DefaultTheme,
+  type Logger,
+  PageEvent,
+  PageKind,
   ParameterType,
+  type Reflection,
   Renderer,
+  type RendererEvent,
+  type Router,
 } from 'typedoc';
 
+import {
+  DEFAULT_ASSET_DIR,
+  getAssetDirUrl,
+  type MermaidAssetLocation,
+  normalizeAssetDir,
+  validateAssetBaseUrl,
+  validateAssetDir,
+} from './assets.js';
+import {
+  addMermaidFenceInfo,
+  getBlockDiagramCode,
+  type MarkdownItParser,
+  type MermaidBlockOptions,
+  parseMermaidBlockInfo,
+} from './blocks.js';
+import {
+  DEFAULT_CDN_TEMPLATE,
+  formatCdnUrl,
+  getCdnUrlVersion,
+  getSubresourceIntegrity,
+  isSupportedMermaidVersion,
+  MIN_MERMAID_MAJOR,
+  type PinnedCdn,
+  validateCdnTemplate,
+} from './cdn.js';
+import {
+  copyMermaidChunks,
+  getDiagramKeyword,
+  selectMermaidChunks,
+} from './chunks.js';
+import {
+  type CollectedDiagram,
+  collectMermaidBlockProblems,
+  collectMermaidDiagrams,
+} from './collect.js';
+import {
+  loadMermaidConfig,
+  mergeMermaidConfig,
+  serializeMermaidConfig,
+} from './config.js';
+import {
+  addNonce,
+  getModuleScript,
+  getStylesheetLink,
+  MERMAID_INIT_MODULE,
+  MERMAID_STYLESHEET,
+  MERMAID_TOOLBAR_MODULE,
+  MERMAID_VIEWER_MODULE,
+  toModule,
+  toStylesheet,
+  validateNonce,
+} from './csp.js';
+import { addModuleGraph, type ModuleGraphPlacement } from './dependencies.js';
+import {
+  copyMermaidExtensions,
+  getExtensionsScript,
+  type MermaidExtensions,
+  resolveMermaidExtensions,
+  validateIconPacks,
+} from './extensions.js';
+import {
+  createFigureState,
+  findUndescribedDiagrams,
+  FRONT_MATTER,
+  getDiagramMetadata,
+  getFigureCaption,
+  getFigureId,
+  type MermaidDiagramMetadata,
+  type MermaidFigureState,
+} from './figures.js';
+import {
+  DIAGRAMS_PAGE_STYLE,
+  DIAGRAMS_PAGE_URL,
+  findDiagramOwner,
+  getDiagramModule,
+  type IndexedDiagram,
+  renderDiagramsLink,
+  renderDiagramsPage,
+} from './gallery.js';
+import { addHierarchyDiagrams, MERMAID_HIERARCHY_TAG } from './hierarchy.js';
+import { expandAllMermaidIncludes, MERMAID_INCLUDE_TAG } from './include.js';
+import { resolveReflectionPlaceholders } from './links.js';
+import {
+  MANIFEST_FILE,
+  MANIFEST_SOURCES_DIR,
+  type ProcessedDiagram,
+  summarizeMermaidManifest,
+  writeMermaidManifest,
+} from './manifest.js';
+import {
+  isMarkdownPage,
+  MERMAID_MARKDOWN_OUTPUTS,
+  type MermaidMarkdownOutput,
+  normalizeMermaidFences,
+  renderMermaidImages,
+  replaceMermaidFences,
+  replaceMermaidFencesWithImages,
+} from './markdown.js';
+import {
+  createHeadlessRenderer,
+  loadMermaidRenderer,
+  type MermaidRenderer,
+  runHeadlessMermaid,
+} from './renderer.js';
+import { linkAllMermaidSymbols, resolveMermaidLink } from './symbols.js';
+import { convertMermaidTags, MERMAID_TAG } from './tags.js';
+import {
+  applyMermaidTheme,
+  DEFAULT_MERMAID_THEMES,
+  getInitDirective,
+  MERMAID_CSS_THEME_VARIABLES,
+  MERMAID_THEME_NAMES,
+  type MermaidThemeName,
+  type MermaidThemes,
+  type MermaidThemeVariables,
+  type MermaidVariant,
+  validateThemeVariables,
+} from './themes.js';
+import {
+  getToolbarScript,
+  MERMAID_TOOLBAR_ACTIONS,
+  type MermaidToolbarAction,
+  TOOLBAR_STYLE,
+  validateToolbarActions,
+} from './toolbar.js';
+import {
+  formatDiagramLocation,
+  formatInvalidDiagram,
+  type MermaidValidation,
+  validateMermaidDiagrams,
+} from './validate.js';
+import {
+  getViewerScript,
+  isViewerEnabled,
+  type MermaidViewerOptions,
+  VIEWER_STYLE,
+} from './viewer.js';
+
+export {
+  DEFAULT_ASSET_DIR,
+  getAssetDirUrl,
+  type MermaidAssetLocation,
+  normalizeAssetDir,
+  validateAssetBaseUrl,
+  validateAssetDir,
+} from './assets.js';
+export {
+  addMermaidFenceInfo,
+  getBlockDiagramCode,
+  type MarkdownItParser,
+  type MarkdownItRule,
+  MERMAID_BLOCK_ALIGNMENTS,
+  type MermaidBlockAlign,
+  type MermaidBlockOptions,
+  type ParsedMermaidBlockInfo,
+  parseMermaidBlockInfo,
+} from './blocks.js';
+export {
+  DEFAULT_CDN_TEMPLATE,
+  formatCdnUrl,
+  getCdnUrlVersion,
+  getSubresourceIntegrity,
+  isSupportedMermaidVersion,
+  MIN_MERMAID_MAJOR,
+  type PinnedCdn,
+  validateCdnTemplate,
+} from './cdn.js';
+export {
+  copyMermaidChunks,
+  findDiagramLoaders,
+  getDiagramKeyword,
+  type MermaidChunkCopyResult,
+  type MermaidChunkSelection,
+  type MermaidDiagramLoader,
+  selectMermaidChunks,
+} from './chunks.js';
+export {
+  type CollectedDiagram,
+  collectMermaidBlockProblems,
+  collectMermaidDiagrams,
+  extractMermaidCode,
+  type MermaidBlockProblem,
+} from './collect.js';
+export {
+  DEFAULT_MERMAID_CONFIG,
+  loadMermaidConfig,
+  mergeMermaidConfig,
+  serializeMermaidConfig,
+} from './config.js';
+export {
+  addNonce,
+  getModuleScript,
+  getStylesheetLink,
+  MERMAID_INIT_MODULE,
+  MERMAID_STYLESHEET,
+  MERMAID_TOOLBAR_MODULE,
+  MERMAID_VIEWER_MODULE,
+  toModule,
+  toStylesheet,
+  validateNonce,
+} from './csp.js';
+export {
+  addModuleGraph,
+  buildModuleGraph,
+  MODULE_GRAPH_TITLE,
+  type ModuleGraph,
+  type ModuleGraphPlacement,
+} from './dependencies.js';
+export {
+  copyMermaidExtensions,
+  EXTENSION_CDN_URL,
+  getExtensionsScript,
+  type MermaidAssetCopy,
+  type MermaidExtensionAsset,
+  type MermaidExtensionOptions,
+  type MermaidExtensions,
+  type MermaidIconPack,
+  resolveMermaidExtensions,
+  validateIconPacks,
+} from './extensions.js';
+export {
+  createFigureState,
+  findUndescribedDiagrams,
+  getDiagramMetadata,
+  getFigureCaption,
+  getFigureId,
+  type MermaidDiagramMetadata,
+  type MermaidFigureState,
+  splitFrontMatter,
+} from './figures.js';
+export {
+  DIAGRAMS_PAGE_STYLE,
+  DIAGRAMS_PAGE_TITLE,
+  DIAGRAMS_PAGE_URL,
+  findDiagramOwner,
+  getDiagramModule,
+  groupIndexedDiagrams,
+  type IndexedDiagram,
+  renderDiagramsLink,
+  renderDiagramsPage,
+} from './gallery.js';
+export {
+  addHierarchyDiagrams,
+  buildHierarchyDiagram,
+  type HierarchyDiagramOptions,
+  MERMAID_HIERARCHY_TAG,
+} from './hierarchy.js';
+export {
+  expandAllMermaidIncludes,
+  expandMermaidIncludes,
+  MERMAID_INCLUDE_TAG,
+  type MermaidIncludeContext,
+  type MissingMermaidInclude,
+  resolveMermaidInclude,
+} from './include.js';
+export {
+  buildMermaidManifest,
+  getDiagramHash,
+  MANIFEST_FILE,
+  MANIFEST_SOURCES_DIR,
+  type MermaidManifest,
+  type MermaidManifestEntry,
+  type ProcessedDiagram,
+  summarizeMermaidManifest,
+  writeMermaidManifest,
+} from './manifest.js';
+export {
+  isMarkdownPage,
+  MERMAID_MARKDOWN_OUTPUTS,
+  type MermaidFence,
+  type MermaidMarkdownOutput,
+  normalizeMermaidFences,
+  renderMermaidImages,
+  replaceMermaidFences,
+  replaceMermaidFencesWithImages,
+} from './markdown.js';
+export {
+  createHeadlessRenderer,
+  getHeadlessMermaid,
+  loadMermaidRenderer,
+  type MermaidRenderer,
+  runHeadlessMermaid,
+} from './renderer.js';
+export {
+  linkAllMermaidSymbols,
+  linkDiagramSymbols,
+  linkMermaidSymbols,
+  type MermaidLinkResolver,
+  type MermaidLinkTarget,
+  type MermaidSymbolLinkOptions,
+  resolveMermaidLink,
+  type UnresolvedMermaidLink,
+} from './symbols.js';
+export {
+  convertMermaidTag,
+  convertMermaidTags,
+  MERMAID_TAG,
+  type MermaidTagContent,
+  parseMermaidTag,
+} from './tags.js';
+export {
+  applyMermaidTheme,
+  DEFAULT_MERMAID_THEMES,
+  getInitDirective,
+  MERMAID_CSS_THEME_VARIABLES,
+  MERMAID_THEME_NAMES,
+  type MermaidTheme,
+  type MermaidThemeName,
+  type MermaidThemes,
+  type MermaidThemeVariables,
+  type MermaidVariant,
+  validateThemeVariables,
+} from './themes.js';
+export {
+  getToolbarScript,
+  MERMAID_TOOLBAR_ACTIONS,
+  type MermaidToolbarAction,
+  TOOLBAR_HELPERS,
+  TOOLBAR_STYLE,
+  validateToolbarActions,
+} from './toolbar.js';
+export {
+  formatDiagramLocation,
+  formatInvalidDiagram,
+  type InvalidDiagram,
+  type MermaidValidation,
+  validateMermaidDiagrams,
+} from './validate.js';
+export {
+  getViewerScript,
+  isViewerEnabled,
+  type MermaidViewerOptions,
+  VIEWER_STYLE,
+} from './viewer.js';
+
+/**
+ * Where diagrams are rendered: in the reader's browser, or to inline SVG at
+ * build time.
+ */
+export type MermaidRenderMode = 'build' | 'client';
+
 /**
  * Mermaid source options for loading the library.
  */
@@ -41,7 +391,7 @@ export const DEFAULT_CDN_URL =
  * Result of attempting to resolve mermaid's dist path.
  */
 export type MermaidResolutionResult =
-  | { distPath: string; ok: true }
+  | { distPath: string; ok: true; version: string }
   | { error: string; ok: false };
 
 /**
@@ -50,7 +400,8 @@ export type MermaidResolutionResult =
  * Uses `import.meta.url` so Node's module resolution walks up from this
  * plugin's location to find mermaid as a peer dependency.
  *
- * @returns A result object with either the dist path or an error message
+ * @returns A result object with either the dist path and installed version, or
+ *   an error message
  */
 export const resolveMermaidDistPath = (): MermaidResolutionResult => {
   const require = createRequire(import.meta.url);
@@ -95,32 +446,46 @@ export const resolveMermaidDistPath = (): MermaidResolutionResult => {
     };
   }
 
-  return { distPath, ok: true };
+  const { version } = require(mermaidPkg) as { version: string };
+
+  return { distPath, ok: true, version };
 };
 
 /**
- * Calculate the relative path from a page URL to the mermaid ESM entry point.
+ * Calculate the path from a page URL to the mermaid ESM entry point.
  *
  * @param pageUrl - The URL of the current page (e.g., "classes/Foo.html" or
  *   "index.html")
- * @returns The relative path to the mermaid ESM entry (e.g.,
- *   "./assets/mermaid/mermaid.esm.min.mjs")
+ * @param location - Where the assets are; by default `assets/mermaid/`, loaded
+ *   by a relative path
+ * @returns The path to the mermaid ESM entry (e.g.,
+ *   "./assets/mermaid/mermaid.esm.min.mjs"), or its URL if the assets have a
+ *   base URL
  */
-export const getRelativeAssetPath = (pageUrl: string): string => {
-  const depth = pageUrl.split('/').length - 1;
-  const prefix = depth > 0 ? '../'.repeat(depth) : './';
-  return prefix + 'assets/mermaid/' + MERMAID_ESM_ENTRY;
-};
+export const getRelativeAssetPath = (
+  pageUrl: string,
+  location: MermaidAssetLocation = { assetDir: DEFAULT_ASSET_DIR },
+): string => getAssetDirUrl(pageUrl, location) + MERMAID_ESM_ENTRY;
 
-const MERMAID_BLOCK_START = '<div class="mermaid-block">';
-const MERMAID_BLOCK_END = '</div>';
+/**
+ * Start of every mermaid block, whatever its attributes.
+ */
+const MERMAID_BLOCK_PREFIX = '<figure class="mermaid-block';
+const MERMAID_BLOCK_END = '</figure>';
+
+/**
+ * Start of a diagram which is left for Mermaid to render in the browser,
+ * whatever its attributes.
+ */
+const CLIENT_DIAGRAM_START = '<div class="mermaid"';
 
 const style = `
 <style>
 /* Contain mermaid blocks */
 .mermaid-block {
   overflow-x: auto;
-  max-width: 100%;
+  margin: 1em 0;
+  max-width: min(100%, var(--mermaid-max-width, 100%));
 }
 
 .mermaid-block > .mermaid {
@@ -129,89 +494,337 @@ const style = `
 
 .mermaid-block svg {
   max-width: 100%;
+  max-height: var(--mermaid-max-height, none);
   height: auto;
 }
 
+/* Captions, and per-block options from the fence info string */
+.mermaid-caption {
+  font-weight: bold;
+  margin-bottom: 0.5em;
+}
+
+.mermaid-details > summary {
+  cursor: pointer;
+}
+
+/* Read by screen readers, through the diagram's aria-describedby */
+.mermaid-description {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip-path: inset(50%);
+  white-space: nowrap;
+}
+
+.mermaid-align-center,
+.mermaid-align-center svg {
+  display: block;
+  margin-left: auto;
+  margin-right: auto;
+}
+
+.mermaid-align-right,
+.mermaid-align-right svg {
+  display: block;
+  margin-left: auto;
+  margin-right: 0;
+}
+
+.mermaid-align-left svg {
+  display: block;
+  margin-left: 0;
+  margin-right: auto;
+}
+
 /* Hide fallback pre when mermaid is enabled */
 :root.mermaid-enabled .mermaid-block > pre {
   display: none;
 }
 
-/* Hide mermaid divs until JS reveals the correct one (visibility allows rendering) */
-.mermaid-block > .mermaid {
-  visibility: hidden;
-  position: absolute;
+/* Hold a place for diagrams until they are rendered */
+.mermaid-block > .mermaid:empty {
+  min-height: min(12em, var(--mermaid-max-height, 12em));
+  border-radius: 0.25em;
+  background: var(--color-background-secondary, rgba(127, 127, 127, 0.1));
+}
+
+/* Diagrams which failed to render show the error and their code */
+.mermaid-error {
+  padding: 0 1em;
+  border: 1px solid var(--color-alert-caution, #d1242f);
+  border-radius: 0.25em;
+}
+
+/* Print the code of diagrams which weren't rendered in time */
+@media print {
+  .mermaid-block > .mermaid:empty {
+    display: none;
+  }
+
+  :root.mermaid-enabled .mermaid-block > .mermaid:empty + pre {
+    display: block;
+  }
+}
+
+/* Pre-rendered diagrams switch themes with CSS alone */
+.mermaid-block > .mermaid-svg.dark {
+  display: none;
+}
+
+:root[data-theme="dark"] .mermaid-block > .mermaid-svg.dark {
+  display: block;
+}
+
+:root[data-theme="dark"] .mermaid-block > .mermaid-svg.light {
+  display: none;
 }
 
-/* Once JS has applied inline display styles, make visible */
-.mermaid-block > .mermaid[style*="display: block"] {
-  visibility: visible;
-  position: static;
+@media (prefers-color-scheme: dark) {
+  :root:not([data-theme="light"]) .mermaid-block > .mermaid-svg.dark {
+    display: block;
+  }
+
+  :root:not([data-theme="light"]) .mermaid-block > .mermaid-svg.light {
+    display: none;
+  }
 }
 </style>
 `;
 
+/**
+ * Get the styles a page with mermaid blocks needs.
+ *
+ * @param toolbar - Whether diagrams have a toolbar
+ * @param viewer - Whether the viewer is enabled
+ * @returns The `<style>` elements
+ */
+const getStyles = (toolbar: boolean, viewer: boolean): string =>
+  style +
+  (toolbar || viewer ? TOOLBAR_STYLE : '') +
+  (viewer ? VIEWER_STYLE : '');
+
+/**
+ * Generate the script which applies the configured theme to each variant.
+ *
+ * @param themes - The theme used for each variant
+ * @returns The script, defining `getDirective()`
+ */
+const getThemeScript = (
+  themes: MermaidThemes,
+): string => `const DIRECTIVES = ${JSON.stringify({
+  dark: getInitDirective(themes.dark),
+  light: getInitDirective(themes.light),
+}).replace(/</g, '\\u003c')};
+
+function getDirective(variant) {
+  return DIRECTIVES[variant];
+}`;
+
+/**
+ * Generate the script which themes each variant from TypeDoc's CSS custom
+ * properties, read whenever a variant is first rendered.
+ *
+ * Variants use Mermaid's `base` theme, the only one whose colors can all be
+ * changed, with the configured theme variables over those from CSS. Colors are
+ * normalized by a canvas, since Mermaid only understands hex, `rgb()` and
+ * `hsl()` colors.
+ *
+ * @param themes - The theme used for each variant, whose variables override
+ *   those from CSS
+ * @returns The script, defining `getDirective()`
+ */
+const getCssThemeScript = (
+  themes: MermaidThemes,
+): string => `const CSS_THEME_VARIABLES = ${JSON.stringify(MERMAID_CSS_THEME_VARIABLES)};
+const THEME_VARIABLES = ${JSON.stringify({
+  dark: themes.dark.themeVariables ?? {},
+  light: themes.light.themeVariables ?? {},
+}).replace(/</g, '\\u003c')};
+
+function getDirective(variant) {
+  const style = getComputedStyle(document.documentElement);
+  const probe = document.createElement("canvas").getContext("2d");
+  const themeVariables = { darkMode: variant === "dark" };
+  for (const [name, property] of Object.entries(CSS_THEME_VARIABLES)) {
+    const value = style.getPropertyValue(property).trim();
+    if (!value || !CSS.supports("color", value)) continue;
+    probe.fillStyle = value;
+    themeVariables[name] = probe.fillStyle;
+  }
+  Object.assign(themeVariables, THEME_VARIABLES[variant]);
+  return "%%{init:" + JSON.stringify({ theme: "base", themeVariables }) + "}%%";
+}`;
+
 /**
  * The shared mermaid initialization and theme-switching logic.
  *
- * This is the common JavaScript code used by both CDN and local modes.
+ * This is the common JavaScript code used by both CDN and local modes. Each
+ * diagram is rendered only in the active theme variant, from the code in its
+ * fallback `<pre>`, and rendered again when the theme changes. Renders are
+ * cached, so switching back is instant, and each variant gets its own element
+ * ids, so markers such as arrowheads can't clash.
+ *
+ * Lazily rendered diagrams wait until they approach the viewport, or until the
+ * browser is idle, so they're ready by the time the page is printed. Printing
+ * renders any still pending, though the browser doesn't wait for them; the
+ * print styles show their code instead.
+ *
+ * @param config - Serialized configuration for `mermaid.initialize()`
+ * @param themes - The theme used for each variant
+ * @param lazy - Whether to render diagrams only as they approach the viewport
+ * @param cssTheme - Whether to take each variant's colors from TypeDoc's CSS
+ * @returns The script body
  */
-const mermaidInitScript = `
+const getMermaidInitScript = (
+  config: string,
+  themes: MermaidThemes,
+  lazy: boolean,
+  cssTheme: boolean,
+): string => `
 document.documentElement.classList.add("mermaid-enabled");
 
-mermaid.initialize({
-  startOnLoad: true,
-  flowchart: { useMaxWidth: true },
-  sequence: { useMaxWidth: true },
-});
+mermaid.initialize(${config});
+
+${cssTheme ? getCssThemeScript(themes) : getThemeScript(themes)}
+const FRONT_MATTER = ${FRONT_MATTER};
+const LAZY = ${lazy};
+// Give up on a diagram which takes longer than this to render, in ms
+const RENDER_TIMEOUT = 10000;
+const diagrams = [...document.querySelectorAll(".mermaid-block > .mermaid")];
+
+// Rendered diagrams, by element and theme variant
+const cache = new WeakMap();
+// Mermaid can't render concurrently, so renders wait their turn
+let queue = Promise.resolve();
+// Lazily rendered diagrams which haven't approached the viewport yet
+const pending = new Set();
 
-// Determine if we're in dark mode
-function isDarkMode() {
+// Determine the current theme variant
+function getVariant() {
   // TypeDoc uses data-theme attribute on html element
   const theme = document.documentElement.dataset.theme;
-  if (theme === "dark") return true;
-  if (theme === "light") return false;
+  if (theme === "dark" || theme === "light") return theme;
   // Fall back to system preference
-  return window.matchMedia("(prefers-color-scheme: dark)").matches;
+  return window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light";
+}
+
+// Add the variant's init directive, and the block's theme override, after
+// the front matter, which Mermaid only recognizes at the very start
+function getThemedCode(el, variant) {
+  const code = el.parentElement.querySelector(":scope > pre > code").textContent.trim();
+  const frontMatter = FRONT_MATTER.exec(code)?.[0] ?? "";
+  const { mermaidTheme } = el.dataset;
+  const override = mermaidTheme ? "%%{init:" + JSON.stringify({ theme: mermaidTheme }) + "}%%\\n" : "";
+  return frontMatter + getDirective(variant) + "\\n" + override + code.slice(frontMatter.length);
+}
+
+function render(el, variant) {
+  let renders = cache.get(el);
+  if (!renders) cache.set(el, (renders = {}));
+  if (!renders[variant]) {
+    const id = el.parentElement.id + "-" + variant;
+    // Theme the code now, while the page still shows this variant
+    const code = getThemedCode(el, variant);
+    renders[variant] = queue.then(() =>
+      Promise.race([
+        mermaid.render(id, code),
+        new Promise((resolve, reject) => {
+          setTimeout(() => reject(new Error("Rendering timed out")), RENDER_TIMEOUT);
+        }),
+      ]),
+    );
+    // A failed or stuck diagram doesn't hold up the rest
+    queue = renders[variant].catch(() => {});
+  }
+  return renders[variant];
+}
+
+async function show(el) {
+  const variant = getVariant();
+  try {
+    const { bindFunctions, svg } = await render(el, variant);
+    // Leave the diagram to a newer call if the theme changed meanwhile
+    if (variant !== getVariant()) return;
+    el.innerHTML = svg;
+    bindFunctions?.(el);
+    el.dispatchEvent(new CustomEvent("mermaid:rendered", { bubbles: true }));
+  } catch (err) {
+    showError(el, err);
+  }
+}
+
+// Replace a diagram which failed to render with its error and source
+function showError(el, err) {
+  if (el.querySelector(":scope > .mermaid-error")) return;
+  console.error(
+    "[typedoc-plugin-mermaid] Diagram " + diagrams.indexOf(el) + " (#" + el.parentElement.id + ") failed to render:",
+    err,
+  );
+  const box = document.createElement("div");
+  box.className = "mermaid-error";
+  box.setAttribute("role", "alert");
+  const message = document.createElement("p");
+  message.textContent = "This diagram failed to render: " + (err?.message ?? String(err));
+  box.append(message, el.parentElement.querySelector(":scope > pre").cloneNode(true));
+  el.replaceChildren(box);
+}
+
+function updateDiagrams() {
+  diagrams.forEach((el) => {
+    if (!pending.has(el)) show(el);
+  });
 }
 
-// Update diagram visibility based on current theme
-function updateDiagramVisibility() {
-  const dark = isDarkMode();
-  document.querySelectorAll(".mermaid-block .mermaid.dark").forEach(el => {
-    el.style.display = dark ? "block" : "none";
+if (LAZY && "IntersectionObserver" in window) {
+  const activate = (el) => {
+    pending.delete(el);
+    lazyObserver.unobserve(el);
+    return show(el);
+  };
+  // Start rendering a screen ahead of the reader
+  const lazyObserver = new IntersectionObserver((entries) => {
+    for (const entry of entries) {
+      if (entry.isIntersecting) activate(entry.target);
+    }
+  }, { rootMargin: "100% 0px" });
+  diagrams.forEach((el) => {
+    pending.add(el);
+    lazyObserver.observe(el);
+  });
+  // Printing doesn't wait for renders, so render the rest one at a time while
+  // the browser is idle, to have them ready before the reader prints
+  const whenIdle = "requestIdleCallback" in window
+    ? (callback) => requestIdleCallback(callback)
+    : (callback) => setTimeout(callback, 1000);
+  const renderNextWhenIdle = () => whenIdle(() => {
+    const [el] = pending;
+    if (el) activate(el).finally(renderNextWhenIdle);
   });
-  document.querySelectorAll(".mermaid-block .mermaid.light").forEach(el => {
-    el.style.display = dark ? "none" : "block";
+  renderNextWhenIdle();
+  // Start any still pending as soon as printing begins
+  const renderPending = () => pending.forEach(activate);
+  window.addEventListener("beforeprint", renderPending);
+  window.matchMedia("print").addEventListener("change", (event) => {
+    if (event.matches) renderPending();
   });
 }
 
-// Wait for mermaid to render ALL SVGs before setting initial visibility
-requestAnimationFrame(function check() {
-  const allMermaids = document.querySelectorAll("div.mermaid");
-  const rendered = document.querySelectorAll("div.mermaid svg");
-
-  if (rendered.length < allMermaids.length) {
-    // Still waiting for mermaid to render
-    requestAnimationFrame(check);
-  } else {
-    // All diagrams rendered, now apply visibility
-    updateDiagramVisibility();
-  }
-});
+updateDiagrams();
 
 // Watch for theme changes via attribute mutation
 const observer = new MutationObserver((mutations) => {
   for (const mutation of mutations) {
     if (mutation.attributeName === "data-theme") {
-      updateDiagramVisibility();
+      updateDiagrams();
     }
   }
 });
 observer.observe(document.documentElement, { attributes: true });
 
 // Also watch system preference changes
-window.matchMedia("(prefers-color-scheme: dark)").addEventListener("change", updateDiagramVisibility);
+window.matchMedia("(prefers-color-scheme: dark)").addEventListener("change", updateDiagrams);
 `;
 
 /**
@@ -223,34 +836,121 @@ export interface MermaidScriptOptions {
    */
   cdnUrl: string;
 
+  /**
+   * Configuration for `mermaid.initialize()`, merged with the plugin defaults.
+   */
+  config?: MermaidConfig;
+
+  /**
+   * Whether diagrams take their colors from TypeDoc's CSS custom properties,
+   * rather than the configured themes.
+   */
+  cssTheme?: boolean;
+
+  /**
+   * Layout loaders, icon packs and external diagrams to register with Mermaid.
+   */
+  extensions?: MermaidExtensions;
+
+  /**
+   * Subresource Integrity hash the CDN build must match (used when source is
+   * 'cdn').
+   */
+  integrity?: string;
+
+  /**
+   * Whether to render diagrams only as they approach the viewport.
+   */
+  lazy?: boolean;
+
   /**
    * The relative path to the local mermaid asset (used when source is 'local').
    */
   localPath: string;
 
+  /**
+   * Nonce for each `<link>`, `<script>` and `<style>` element added to the
+   * page.
+   */
+  nonce?: string;
+
+  /**
+   * URL of the asset directory from the page, ending in `/`, if the page loads
+   * the plugin's styles and scripts from files there instead of inlining them.
+   */
+  runtimeUrl?: string;
+
   /**
    * The source mode for loading mermaid.
    */
   source: MermaidSource;
+
+  /**
+   * The actions offered by each diagram's toolbar.
+   */
+  toolbar?: readonly MermaidToolbarAction[];
+
+  /**
+   * The pan/zoom viewer, if enabled.
+   */
+  viewer?: MermaidViewerOptions;
 }
 
+/**
+ * Build the link which fetches and verifies a CDN build with an integrity hash
+ * before it's imported.
+ *
+ * @param options - Configuration for script generation
+ * @returns The link, or an empty string if there's no hash to verify
+ */
+const getPreload = (options: MermaidScriptOptions): string =>
+  options.source === 'cdn' && options.integrity
+    ? `\n<link rel="modulepreload" href="${options.cdnUrl}" integrity="${options.integrity}" crossorigin="anonymous">`
+    : '';
+
 /**
  * Generate the script tag for initializing Mermaid.
  *
  * Both CDN and local modes use ES module imports - the only difference is the
- * URL used for the import.
+ * URL used for the import. Browsers don't check the integrity of imports, so a
+ * CDN build with an integrity hash is first fetched by a `modulepreload` link
+ * which does; if the hash doesn't match, the import fails too.
+ *
+ * The script renders diagrams itself, and shows its own errors, so
+ * `startOnLoad` and Mermaid's error diagrams are always disabled.
  *
  * @param options - Configuration for script generation
+ * @param themes - The theme used for each variant
  * @returns The script HTML to inject
+ * @throws If the Mermaid configuration can't be serialized
  */
-export const getScript = (options: MermaidScriptOptions): string => {
+export const getScript = (
+  options: MermaidScriptOptions,
+  themes: MermaidThemes = DEFAULT_MERMAID_THEMES,
+): string => {
   const mermaidUrl =
     options.source === 'local' ? options.localPath : options.cdnUrl;
+  const config = mergeMermaidConfig(
+    { startOnLoad: false, suppressErrorRendering: true },
+    mergeMermaidConfig(options.config),
+  );
 
-  return `
+  const extensions = options.extensions
+    ? getExtensionsScript(
+        options.extensions,
+        options.localPath.replace(/[^/]*$/, ''),
+      )
+    : '';
+
+  return `${getPreload(options)}
 <script type="module">
-import mermaid from "${mermaidUrl}";
-${mermaidInitScript}
+import mermaid from "${mermaidUrl}";${extensions && `\n${extensions}`}
+${getMermaidInitScript(
+  serializeMermaidConfig(config),
+  themes,
+  !!options.lazy,
+  !!options.cssTheme,
+)}
 </script>
 `;
 };
@@ -289,69 +989,382 @@ export const unescapeHtml = (str: string): string => {
 };
 
 /**
- * Convert HTML-escaped mermaid code to a block with dark/light variants.
+ * SVG markup of a diagram rendered at build time, per theme variant.
+ */
+export type PrerenderedDiagram = Record<MermaidVariant, string>;
+
+/**
+ * Pre-rendered diagrams, keyed by their plain (unescaped, trimmed) code.
+ */
+export type PrerenderedDiagrams = ReadonlyMap<string, PrerenderedDiagram>;
+
+/**
+ * Prefix plain mermaid code with the init directive for a theme variant.
+ *
+ * @param plainCode - Unescaped mermaid code
+ * @param variant - The theme variant
+ * @param themes - The theme used for each variant
+ * @returns The code as handed to Mermaid
+ */
+export const getThemedCode = (
+  plainCode: string,
+  variant: MermaidVariant,
+  themes: MermaidThemes = DEFAULT_MERMAID_THEMES,
+): string => applyMermaidTheme(plainCode, themes[variant]);
+
+/**
+ * A diagram's caption and anchor.
+ */
+interface MermaidFigure {
+  /**
+   * The HTML-escaped caption, if the figure has one.
+   */
+  caption?: string;
+
+  /**
+   * The anchor id.
+   */
+  id: string;
+}
+
+/**
+ * Build the accessibility attributes of a rendered diagram, and the visually
+ * hidden element holding its description, if it has both a label and a
+ * description.
+ *
+ * @param metadata - Titles and descriptions from the diagram's source
+ * @param id - The figure's anchor id, which the description's id is based on
+ * @param title - The diagram's title, if it has one
+ * @returns The attributes, each with a leading space, and the description
+ */
+const getDiagramAccessibility = (
+  { accDescr, accTitle }: MermaidDiagramMetadata,
+  id: string,
+  title?: string,
+): { attributes: string; description: string } => {
+  const label = accTitle ?? title;
+  if (!label && !accDescr) {
+    return { attributes: '', description: '' };
+  }
+  const attributes = ` role="img" aria-label="${escapeHtml(label ?? accDescr!)}"`;
+  if (!label || !accDescr) {
+    return { attributes, description: '' };
+  }
+  const descriptionId = `${id}-description`;
+  return {
+    attributes: `${attributes} aria-describedby="${descriptionId}"`,
+    description: `<p class="mermaid-description" id="${descriptionId}">${escapeHtml(accDescr)}</p>`,
+  };
+};
+
+/**
+ * Build the opening tag of a mermaid block.
+ *
+ * @param options - The block's options
+ * @param id - The figure's anchor id
+ * @returns The opening `<figure>`
+ */
+const getBlockStart = (
+  { align, height, width }: MermaidBlockOptions,
+  id: string,
+): string => {
+  let attributes = align
+    ? ` class="mermaid-block mermaid-align-${align}"`
+    : ' class="mermaid-block"';
+  attributes += ` id="${id}"`;
+  const styles = [];
+  if (height) {
+    styles.push(`--mermaid-max-height: ${height}`);
+  }
+  if (width) {
+    styles.push(`--mermaid-max-width: ${width}`);
+  }
+  if (styles.length) {
+    attributes += ` style="${styles.join('; ')}"`;
+  }
+  return `<figure${attributes}>`;
+};
+
+/**
+ * Wrap diagram markup in a mermaid block, adding its caption and collapsing it
+ * if requested.
+ *
+ * A collapsed block's caption becomes the summary of the `<details>` element
+ * around it.
+ *
+ * @param content - The diagrams and fallback code
+ * @param options - The block's options
+ * @param figure - The block's caption and anchor
+ * @returns The mermaid block HTML
+ */
+const wrapMermaidBlock = (
+  content: string,
+  options: MermaidBlockOptions,
+  { caption, id }: MermaidFigure,
+): string => {
+  if (!options.collapsed) {
+    const figcaption = caption
+      ? `<figcaption class="mermaid-caption">${caption}</figcaption>`
+      : '';
+    return (
+      getBlockStart(options, id) + figcaption + content + MERMAID_BLOCK_END
+    );
+  }
+  return (
+    `<details class="mermaid-details"><summary>${caption ?? 'Diagram'}</summary>` +
+    getBlockStart(options, id) +
+    content +
+    MERMAID_BLOCK_END +
+    '</details>'
+  );
+};
+
+/**
+ * Convert HTML-escaped mermaid code to a figure.
+ *
+ * If the diagram was rendered at build time, the figure contains inline SVGs of
+ * both theme variants. Otherwise it contains an element for the script to
+ * render the diagram into, and the code as a fallback. Its caption is the
+ * block's `title` option, the diagram's front matter `title`, or its
+ * `accTitle`, in that order.
  *
  * @param escapedCode - HTML-escaped mermaid code from the pre/code block
+ * @param prerendered - Diagrams rendered at build time
+ * @param info - Options from the fence's info string, after `mermaid`
+ * @param figures - Figure numbers and anchor ids used so far on the page
  * @returns The mermaid block HTML
  */
-export const toMermaidBlock = (escapedCode: string): string => {
+export const toMermaidBlock = (
+  escapedCode: string,
+  prerendered?: PrerenderedDiagrams,
+  info = '',
+  figures: MermaidFigureState = createFigureState(),
+): string => {
   // Unescape for mermaid to parse, then re-escape for the fallback pre
   const plainCode = unescapeHtml(escapedCode).trim();
+  // Problems were already reported when the markdown was rendered
+  const { options } = parseMermaidBlockInfo(info);
+  const code = getBlockDiagramCode(plainCode, options);
+
+  const metadata = getDiagramMetadata(plainCode);
+  const title = options.title ?? metadata.title ?? metadata.accTitle;
+  const caption = getFigureCaption(figures, title);
+  const figure: MermaidFigure = {
+    caption: caption === undefined ? undefined : escapeHtml(caption),
+    id: getFigureId(figures, plainCode, title, options.id),
+  };
+  const { attributes, description } = getDiagramAccessibility(
+    metadata,
+    figure.id,
+    title,
+  );
+
   const htmlCode = escapeHtml(plainCode);
 
-  const dark = `<div class="mermaid dark">%%{init:{"theme":"dark"}}%%\n${plainCode}</div>`;
-  const light = `<div class="mermaid light">%%{init:{"theme":"default"}}%%\n${plainCode}</div>`;
+  const svgs = prerendered?.get(code);
+  if (svgs) {
+    const dark = `<div class="mermaid-svg dark"${attributes}>${svgs.dark}</div>`;
+    const light = `<div class="mermaid-svg light"${attributes}>${svgs.light}</div>`;
+    // Keep the source for the toolbar's copy action
+    const source = `<template class="mermaid-source">${htmlCode}</template>`;
+    return wrapMermaidBlock(
+      description + dark + light + source,
+      options,
+      figure,
+    );
+  }
+
+  // The script renders the fallback code, applying the theme override itself
+  const theme = options.theme ? ` data-mermaid-theme="${options.theme}"` : '';
+  const diagram = `${CLIENT_DIAGRAM_START}${attributes}${theme}></div>`;
   const pre = `<pre><code class="language-mermaid">${htmlCode}</code></pre>`;
 
-  return MERMAID_BLOCK_START + dark + light + pre + MERMAID_BLOCK_END;
+  return wrapMermaidBlock(description + diagram + pre, options, figure);
 };
 
 /**
- * Replace pre/code mermaid blocks in HTML with mermaid divs.
+ * Replace pre/code mermaid blocks in HTML with mermaid figures.
  *
  * @param html - The HTML to transform
+ * @param prerendered - Diagrams rendered at build time
+ * @param numbered - Whether to number the figures, starting from 1
  * @returns The transformed HTML
  */
-export const transformMermaidBlocks = (html: string): string => {
+export const transformMermaidBlocks = (
+  html: string,
+  prerendered?: PrerenderedDiagrams,
+  numbered = false,
+): string => {
+  const figures = createFigureState(numbered);
   // Match <pre><code class="mermaid">...</code><button>Copy</button></pre>
-  // TypeDoc adds a copy button after the code element
+  // TypeDoc adds a copy button after the code element; block options, if any,
+  // are in the data-mermaid-info attribute added by addMermaidFenceInfo()
   return html.replace(
-    /<pre><code class="mermaid">([\s\S]*?)<\/code><button[^>]*>Copy<\/button><\/pre>/g,
-    (_, code: string) => toMermaidBlock(code),
+    /<pre><code class="mermaid"(?: data-mermaid-info="([^"]*)")?>([\s\S]*?)<\/code><button[^>]*>Copy<\/button><\/pre>/g,
+    (_, info: string | undefined, code: string) =>
+      toMermaidBlock(code, prerendered, unescapeHtml(info ?? ''), figures),
   );
 };
 
+/**
+ * Check whether HTML contains diagrams which Mermaid must render in the
+ * browser.
+ *
+ * @param html - Processed page HTML
+ * @returns `true` if the Mermaid script is needed
+ */
+const needsMermaidScript = (html: string): boolean =>
+  html.includes(CLIENT_DIAGRAM_START);
+
+/**
+ * Matches a diagram left for Mermaid to render in the browser, capturing its
+ * fallback code.
+ */
+const CLIENT_DIAGRAM = new RegExp(
+  `${CLIENT_DIAGRAM_START}[^>]*></div><pre><code class="language-mermaid">([\\s\\S]*?)</code></pre>`,
+  'g',
+);
+
+/**
+ * Get the code of each diagram which Mermaid must render in the browser.
+ *
+ * @param html - Processed page HTML
+ * @returns Plain Mermaid code of each client-side diagram
+ */
+const getClientDiagramCodes = (html: string): string[] =>
+  [...html.matchAll(CLIENT_DIAGRAM)].map(([, code]) => unescapeHtml(code!));
+
+/**
+ * Matches a mermaid block, capturing the summary it's collapsed behind, its
+ * anchor id, its caption and the rest of its content.
+ */
+const FIGURE = new RegExp(
+  `(?:<details class="mermaid-details"><summary>([^<]*)</summary>)?${MERMAID_BLOCK_PREFIX}[^"]*" id="([^"]*)"[^>]*>(?:<figcaption class="mermaid-caption">([^<]*)</figcaption>)?([\\s\\S]*?)${MERMAID_BLOCK_END}`,
+  'g',
+);
+
+/**
+ * Matches a mermaid block's source, kept in a template when the diagram was
+ * pre-rendered and in the fallback code otherwise.
+ */
+const FIGURE_CODE =
+  /<template class="mermaid-source">([\s\S]*?)<\/template>|<pre><code class="language-mermaid">([\s\S]*?)<\/code><\/pre>/;
+
+/**
+ * A mermaid block found in processed page HTML.
+ */
+interface PageFigure {
+  /**
+   * Plain Mermaid code of the diagram.
+   */
+  code: string;
+
+  /**
+   * The block's content, without its caption.
+   */
+  content: string;
+
+  /**
+   * The anchor id.
+   */
+  id: string;
+
+  /**
+   * The diagram's title, if it has one.
+   */
+  title?: string;
+}
+
+/**
+ * Find the mermaid blocks on a page.
+ *
+ * @param html - Processed page HTML
+ * @param numbered - Whether the page's figures are numbered, so their captions
+ *   start with "Figure N"
+ * @returns The blocks, in order
+ */
+const getPageFigures = (html: string, numbered: boolean): PageFigure[] =>
+  [...html.matchAll(FIGURE)].map(([, summary, id, figcaption, content]) => {
+    const [, template, pre] = FIGURE_CODE.exec(content!) ?? [];
+    let title = unescapeHtml(figcaption ?? summary ?? '');
+    if (numbered) {
+      title = title.replace(/^Figure \d+(?:: )?/, '');
+    }
+    return {
+      code: unescapeHtml(template ?? pre ?? '').trim(),
+      content: content!,
+      id: id!,
+      title: title || undefined,
+    };
+  });
+
 /**
  * Check if page has mermaid blocks and inject script/styles.
  *
+ * The Mermaid script is omitted when every diagram on the page was
+ * pre-rendered.
+ *
  * @param html - The HTML to process
  * @param options - Configuration for mermaid script generation
+ * @param prerendered - Diagrams rendered at build time
+ * @param themes - The theme used for each variant
+ * @param numbered - Whether to number the page's figures
  * @returns The processed HTML
  */
 export const processMermaidPage = (
   html: string,
   options: MermaidScriptOptions,
+  prerendered?: PrerenderedDiagrams,
+  themes?: MermaidThemes,
+  numbered?: boolean,
 ): string => {
   // First transform any mermaid code blocks
-  html = transformMermaidBlocks(html);
+  html = transformMermaidBlocks(html, prerendered, numbered);
 
   // Only inject scripts if we have mermaid blocks
-  if (!html.includes(MERMAID_BLOCK_START)) {
+  if (!html.includes(MERMAID_BLOCK_PREFIX)) {
     return html;
   }
 
+  const viewer = isViewerEnabled(options.viewer);
+  const toolbar = !!options.toolbar?.length;
+  const { runtimeUrl } = options;
+
   // Insert styles before </head>
   const headEndIndex = html.indexOf('</head>');
   if (headEndIndex !== -1) {
-    html = html.slice(0, headEndIndex) + style + html.slice(headEndIndex);
+    const styles =
+      runtimeUrl === undefined
+        ? getStyles(toolbar, viewer)
+        : getStylesheetLink(runtimeUrl + MERMAID_STYLESHEET);
+    html =
+      html.slice(0, headEndIndex) +
+      addNonce(styles, options.nonce) +
+      html.slice(headEndIndex);
   }
 
-  // Insert script before </body>
+  // Insert scripts before </body>; the toolbar and viewer also work on
+  // pre-rendered diagrams, so they don't depend on the Mermaid script
   const bodyEndIndex = html.lastIndexOf('</body>');
   if (bodyEndIndex !== -1) {
+    let scripts: string;
+    if (runtimeUrl === undefined) {
+      scripts =
+        (needsMermaidScript(html) ? getScript(options, themes) : '') +
+        (toolbar ? getToolbarScript(options.toolbar!) : '') +
+        (viewer ? getViewerScript(options.viewer!) : '');
+    } else {
+      scripts =
+        (needsMermaidScript(html)
+          ? getPreload(options) +
+            getModuleScript(runtimeUrl + MERMAID_INIT_MODULE)
+          : '') +
+        (toolbar ? getModuleScript(runtimeUrl + MERMAID_TOOLBAR_MODULE) : '') +
+        (viewer ? getModuleScript(runtimeUrl + MERMAID_VIEWER_MODULE) : '');
+    }
     html =
       html.slice(0, bodyEndIndex) +
-      getScript(options) +
+      addNonce(scripts, options.nonce) +
       html.slice(bodyEndIndex);
   }
 
@@ -359,22 +1372,130 @@ export const processMermaidPage = (
 };
 
 /**
- * TypeDoc plugin entry point.
+ * Generate the files pages load the plugin's styles and scripts from when they
+ * aren't inlined.
  *
- * @param app - The TypeDoc application
+ * The files sit in the asset directory, so the init module imports a local
+ * mermaid, and copied extensions, from next to itself.
+ *
+ * @param options - Configuration for script generation
+ * @param themes - The theme used for each variant
+ * @param extraStyles - CSS to add to the stylesheet, such as the diagrams
+ *   page's
+ * @returns The contents of each file, by name
+ * @throws If the Mermaid configuration can't be serialized
  */
-export const load = (app: Application): void => {
-  // Declare the mermaidSource option
-  app.options.addDeclaration({
-    defaultValue: 'cdn',
-    help: 'Where to load Mermaid from: cdn uses mermaidCdnUrl, local copies from node_modules',
-    map: new Map([
-      ['cdn', 'cdn'],
-      ['local', 'local'],
-    ]),
-    name: 'mermaidSource',
-    type: ParameterType.Map,
-  });
+export const getRuntimeFiles = (
+  options: MermaidScriptOptions,
+  themes: MermaidThemes = DEFAULT_MERMAID_THEMES,
+  extraStyles = '',
+): Map<string, string> => {
+  const viewer = isViewerEnabled(options.viewer);
+  const toolbar = !!options.toolbar?.length;
+
+  const files = new Map<string, string>([
+    [
+      MERMAID_INIT_MODULE,
+      toModule(
+        getScript({ ...options, localPath: `./${MERMAID_ESM_ENTRY}` }, themes),
+      ),
+    ],
+    [
+      MERMAID_STYLESHEET,
+      toStylesheet(
+        getStyles(toolbar, viewer) +
+          (extraStyles && `<style>${extraStyles}</style>`),
+      ),
+    ],
+  ]);
+  if (toolbar) {
+    files.set(
+      MERMAID_TOOLBAR_MODULE,
+      toModule(getToolbarScript(options.toolbar!)),
+    );
+  }
+  if (viewer) {
+    files.set(
+      MERMAID_VIEWER_MODULE,
+      toModule(getViewerScript(options.viewer!)),
+    );
+  }
+  return files;
+};
+
+/**
+ * Render diagrams to SVG in both theme variants.
+ *
+ * Diagrams are rendered one at a time, since Mermaid is not safe to use
+ * concurrently. A diagram which fails to render is logged, with where it's
+ * documented, and left out of the result, so it falls back to client-side
+ * rendering.
+ *
+ * @param renderer - The renderer to use
+ * @param diagrams - The diagrams; duplicate code is rendered once
+ * @param logger - Logger for render failures
+ * @param themes - The theme used for each variant
+ * @param router - The renderer's router, used to name the page of a diagram
+ *   which fails to render
+ * @returns The rendered diagrams, keyed by code
+ */
+export const prerenderMermaidDiagrams = async (
+  renderer: MermaidRenderer,
+  diagrams: Iterable<CollectedDiagram>,
+  logger?: Logger,
+  themes: MermaidThemes = DEFAULT_MERMAID_THEMES,
+  router?: Router,
+): Promise<Map<string, PrerenderedDiagram>> => {
+  const prerendered = new Map<string, PrerenderedDiagram>();
+  // The first reflection documenting each diagram, for failure messages
+  const reflections = new Map<string, Reflection>();
+  for (const { code, reflection } of diagrams) {
+    if (!reflections.has(code)) {
+      reflections.set(code, reflection);
+    }
+  }
+
+  for (const [code, reflection] of reflections) {
+    const hash = createHash('sha256').update(code).digest('hex').slice(0, 8);
+    try {
+      prerendered.set(code, {
+        dark: await renderer.render(
+          `mermaid-${hash}-dark`,
+          getThemedCode(code, 'dark', themes),
+        ),
+        light: await renderer.render(
+          `mermaid-${hash}-light`,
+          getThemedCode(code, 'light', themes),
+        ),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger?.warn(
+        `[typedoc-plugin-mermaid] Failed to pre-render diagram in ${formatDiagramLocation(reflection, router)}, falling back to client-side rendering: ${message}`,
+      );
+    }
+  }
+
+  return prerendered;
+};
+
+/**
+ * TypeDoc plugin entry point.
+ *
+ * @param app - The TypeDoc application
+ */
+export const load = (app: Application): void => {
+  // Declare the mermaidSource option
+  app.options.addDeclaration({
+    defaultValue: 'cdn',
+    help: 'Where to load Mermaid from: cdn uses mermaidCdnUrl, local copies from node_modules',
+    map: new Map([
+      ['cdn', 'cdn'],
+      ['local', 'local'],
+    ]),
+    name: 'mermaidSource',
+    type: ParameterType.Map,
+  });
 
   // Declare the mermaidCdnUrl option
   app.options.addDeclaration({
@@ -384,49 +1505,949 @@ export const load = (app: Application): void => {
     type: ParameterType.String,
   });
 
+  // Declare the mermaidCdnPin option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Load Mermaid from the CDN at the installed version, with its entry point verified by Subresource Integrity (only used when mermaidSource is "cdn")',
+    name: 'mermaidCdnPin',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidCdnTemplate option
+  app.options.addDeclaration({
+    defaultValue: DEFAULT_CDN_TEMPLATE,
+    help: 'URL template for mermaidCdnPin, with {version} in place of the Mermaid version',
+    name: 'mermaidCdnTemplate',
+    type: ParameterType.String,
+    validate: validateCdnTemplate,
+  });
+
+  // Declare the mermaidAssetDir option
+  app.options.addDeclaration({
+    defaultValue: DEFAULT_ASSET_DIR,
+    help: 'Directory within the output directory to copy Mermaid and its extensions to',
+    name: 'mermaidAssetDir',
+    type: ParameterType.String,
+    validate: validateAssetDir,
+  });
+
+  // Declare the mermaidAssetBaseUrl option
+  app.options.addDeclaration({
+    help: 'Absolute or root-relative URL pages load mermaidAssetDir from, instead of a path relative to each page',
+    name: 'mermaidAssetBaseUrl',
+    type: ParameterType.String,
+    validate: validateAssetBaseUrl,
+  });
+
+  // Declare the mermaidCsp option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Write the styles and scripts pages need to mermaidAssetDir and load them from there, instead of inlining them, for a Content Security Policy',
+    name: 'mermaidCsp',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidCspNonce option
+  app.options.addDeclaration({
+    help: 'Nonce to add to each <link>, <script> and <style> element the plugin adds to pages',
+    name: 'mermaidCspNonce',
+    type: ParameterType.String,
+    validate: validateNonce,
+  });
+
+  // Declare the mermaidLayoutLoaders option
+  app.options.addDeclaration({
+    defaultValue: [],
+    help: 'Modules of Mermaid layout loaders to register, such as @mermaid-js/layout-elk: URLs, paths or package names',
+    name: 'mermaidLayoutLoaders',
+    type: ParameterType.Array,
+  });
+
+  // Declare the mermaidIconPacks option
+  app.options.addDeclaration({
+    defaultValue: {},
+    help: 'Iconify JSON icon packs to register with Mermaid, keyed by name: URLs, paths or package names',
+    name: 'mermaidIconPacks',
+    type: ParameterType.Object,
+    validate: validateIconPacks,
+  });
+
+  // Declare the mermaidExternalDiagrams option
+  app.options.addDeclaration({
+    defaultValue: [],
+    help: 'Modules of external Mermaid diagram types to register, such as @mermaid-js/mermaid-zenuml: URLs, paths or package names',
+    name: 'mermaidExternalDiagrams',
+    type: ParameterType.Array,
+  });
+
+  // Declare the mermaidRender option
+  app.options.addDeclaration({
+    defaultValue: 'client',
+    help: 'Where to render Mermaid diagrams: client renders in the browser, build renders inline SVG while generating docs',
+    map: new Map([
+      ['build', 'build'],
+      ['client', 'client'],
+    ]),
+    name: 'mermaidRender',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidLazyRender option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Render diagrams in the browser only as they approach the viewport (only used when mermaidRender is "client")',
+    name: 'mermaidLazyRender',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidRenderer option
+  app.options.addDeclaration({
+    help: 'Path to a module exporting a custom renderer (only used when mermaidRender is "build")',
+    name: 'mermaidRenderer',
+    type: ParameterType.Path,
+  });
+
+  // Declare the mermaidValidation option
+  app.options.addDeclaration({
+    defaultValue: 'off',
+    help: 'How to report Mermaid syntax errors found while generating docs: off, warn, or error (fails the build)',
+    map: new Map([
+      ['error', 'error'],
+      ['off', 'off'],
+      ['warn', 'warn'],
+    ]),
+    name: 'mermaidValidation',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidMarkdownOutput option
+  app.options.addDeclaration({
+    defaultValue: 'keep',
+    help: 'What to do with Mermaid diagrams in Markdown output (typedoc-plugin-markdown): keep the fences, normalize them to plain fences for GitHub, GitLab or Docusaurus, or replace them with svg images',
+    map: new Map(MERMAID_MARKDOWN_OUTPUTS.map((output) => [output, output])),
+    name: 'mermaidMarkdownOutput',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidIncludeBaseDir option
+  app.options.addDeclaration({
+    help: 'Directory to resolve {@mermaidInclude} paths against, unless they start with ./ or ../ (defaults to the current directory)',
+    name: 'mermaidIncludeBaseDir',
+    type: ParameterType.Path,
+  });
+
+  // Declare the mermaidAutoLink option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Link flowchart and class diagram nodes whose ids are the names of exported symbols to their documentation',
+    name: 'mermaidAutoLink',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidConfig option
+  app.options.addDeclaration({
+    help: 'Configuration for mermaid.initialize(): an object, or the path of a JSON or JavaScript file exporting one',
+    name: 'mermaidConfig',
+    type: ParameterType.Mixed,
+    validate: (value) => {
+      if (
+        typeof value !== 'string' &&
+        (typeof value !== 'object' || value === null || Array.isArray(value))
+      ) {
+        throw new TypeError(
+          '[typedoc-plugin-mermaid] mermaidConfig must be an object or a file path',
+        );
+      }
+    },
+  });
+
+  // Declare the mermaidLightTheme option
+  app.options.addDeclaration({
+    defaultValue: DEFAULT_MERMAID_THEMES.light.theme,
+    help: `Mermaid theme for diagrams in light mode: ${MERMAID_THEME_NAMES.join(', ')}`,
+    map: new Map(MERMAID_THEME_NAMES.map((name) => [name, name])),
+    name: 'mermaidLightTheme',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidDarkTheme option
+  app.options.addDeclaration({
+    defaultValue: DEFAULT_MERMAID_THEMES.dark.theme,
+    help: `Mermaid theme for diagrams in dark mode: ${MERMAID_THEME_NAMES.join(', ')}`,
+    map: new Map(MERMAID_THEME_NAMES.map((name) => [name, name])),
+    name: 'mermaidDarkTheme',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidLightThemeVariables option
+  app.options.addDeclaration({
+    defaultValue: {},
+    help: 'Mermaid themeVariables for diagrams in light mode',
+    name: 'mermaidLightThemeVariables',
+    type: ParameterType.Object,
+    validate: validateThemeVariables,
+  });
+
+  // Declare the mermaidDarkThemeVariables option
+  app.options.addDeclaration({
+    defaultValue: {},
+    help: 'Mermaid themeVariables for diagrams in dark mode',
+    name: 'mermaidDarkThemeVariables',
+    type: ParameterType.Object,
+    validate: validateThemeVariables,
+  });
+
+  // Declare the mermaidCssTheme option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: "Color diagrams rendered in the browser from the TypeDoc theme's CSS custom properties, over Mermaid's base theme",
+    name: 'mermaidCssTheme',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidAutoHierarchy option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Add a Mermaid hierarchy diagram to every class and interface, not just those tagged with @mermaidHierarchy',
+    name: 'mermaidAutoHierarchy',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidHierarchyDepth option
+  app.options.addDeclaration({
+    defaultValue: 2,
+    help: 'How many levels of ancestors and descendants hierarchy diagrams include',
+    minValue: 1,
+    name: 'mermaidHierarchyDepth',
+    type: ParameterType.Number,
+  });
+
+  // Declare the mermaidHierarchyMembers option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'List properties and methods of each class and interface in hierarchy diagrams',
+    name: 'mermaidHierarchyMembers',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidModuleGraph option
+  app.options.addDeclaration({
+    defaultValue: 'off',
+    help: 'Where to render a Mermaid graph of module dependencies: off, page (a dedicated page), or index (the project index)',
+    map: new Map([
+      ['index', 'index'],
+      ['off', 'off'],
+      ['page', 'page'],
+    ]),
+    name: 'mermaidModuleGraph',
+    type: ParameterType.Map,
+  });
+
+  // Declare the mermaidModuleGraphMaxNodes option
+  app.options.addDeclaration({
+    defaultValue: 50,
+    help: 'Maximum number of modules in the module graph; the most connected are kept',
+    minValue: 1,
+    name: 'mermaidModuleGraphMaxNodes',
+    type: ParameterType.Number,
+  });
+
+  // Declare the mermaidDiagramsPage option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: `Generate a ${DIAGRAMS_PAGE_URL} page listing every Mermaid diagram by module and type, linked from the navigation`,
+    name: 'mermaidDiagramsPage',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidManifest option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: `Write ${MANIFEST_FILE}, listing every Mermaid diagram processed, and each diagram's source to ${MANIFEST_SOURCES_DIR}/`,
+    name: 'mermaidManifest',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidFigureNumbers option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Number diagrams on each page, captioning them "Figure 1", "Figure 2" and so on',
+    name: 'mermaidFigureNumbers',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidAccessibilityWarnings option
+  app.options.addDeclaration({
+    defaultValue: true,
+    help: 'Warn about Mermaid diagrams without an accessible description (accDescr)',
+    name: 'mermaidAccessibilityWarnings',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidViewer option
+  app.options.addDeclaration({
+    defaultValue: false,
+    help: 'Add pan/zoom and fullscreen controls to Mermaid diagrams',
+    name: 'mermaidViewer',
+    type: ParameterType.Boolean,
+  });
+
+  // Declare the mermaidToolbar option
+  app.options.addDeclaration({
+    defaultValue: [],
+    help: `Actions in each Mermaid diagram's toolbar, in order: ${MERMAID_TOOLBAR_ACTIONS.join(', ')}`,
+    name: 'mermaidToolbar',
+    type: ParameterType.Array,
+    validate: validateToolbarActions,
+  });
+
+  // Declare the mermaidCollapseHeight option
+  app.options.addDeclaration({
+    defaultValue: 0,
+    help: 'Collapse Mermaid diagrams taller than this many pixels behind a "Show diagram" button (0 disables)',
+    minValue: 0,
+    name: 'mermaidCollapseHeight',
+    type: ParameterType.Number,
+  });
+
+  // Register our tags and markdown-it rule once user configuration has been read
+  app.on(Application.EVENT_BOOTSTRAP_END, () => {
+    const blockTags = app.options.getValue('blockTags');
+    if (!blockTags.includes(MERMAID_TAG)) {
+      app.options.setValue('blockTags', [...blockTags, MERMAID_TAG]);
+    }
+    const modifierTags = app.options.getValue('modifierTags');
+    if (!modifierTags.includes(MERMAID_HIERARCHY_TAG)) {
+      app.options.setValue('modifierTags', [
+        ...modifierTags,
+        MERMAID_HIERARCHY_TAG,
+      ]);
+    }
+    const inlineTags = app.options.getValue('inlineTags');
+    if (!inlineTags.includes(MERMAID_INCLUDE_TAG)) {
+      app.options.setValue('inlineTags', [...inlineTags, MERMAID_INCLUDE_TAG]);
+    }
+
+    // Keep mermaid fence options through markdown rendering, after any
+    // user-supplied markdown-it setup
+    const markdownItLoader = app.options.getValue('markdownItLoader');
+    app.options.setValue('markdownItLoader', (parser: MarkdownItParser) => {
+      markdownItLoader(parser);
+      addMermaidFenceInfo(parser);
+    });
+  });
+
+  // Head @mermaid sections with "Diagram" rather than "Mermaid"
+  app.internationalization.addTranslations('en', {
+    tag_mermaid: 'Diagram',
+    tag_mermaidHierarchy: 'Hierarchy Diagram',
+  });
+
+  // Turn {@mermaidInclude} and @mermaid tags into mermaid code blocks before
+  // anything renders them
+  app.converter.on(Converter.EVENT_RESOLVE_BEGIN, (context) => {
+    const baseDir =
+      (app.options.getValue('mermaidIncludeBaseDir') as string) ||
+      process.cwd();
+    const readme = app.options.getValue('readme');
+    const missing = expandAllMermaidIncludes(
+      context.project,
+      { baseDir, onFile: (path) => app.watchFile(path) },
+      readme && readme !== 'none' ? readme : undefined,
+    );
+    for (const { error, path, reflection } of missing) {
+      app.logger.warn(
+        `[typedoc-plugin-mermaid] Could not include diagram ${path} in ${reflection.getFriendlyFullName()}: ${error}`,
+      );
+    }
+
+    convertMermaidTags(context.project);
+  });
+
+  // Resolve {@link} tags in diagrams, then generate hierarchy and module
+  // diagrams, once references have been resolved
+  app.converter.on(Converter.EVENT_RESOLVE_END, (context) => {
+    const unresolved = linkAllMermaidSymbols(
+      context.project,
+      (target, owner) => resolveMermaidLink(app.converter, target, owner),
+      app.options.getValue('mermaidAutoLink') as boolean,
+    );
+    if (app.options.getValue('validation').invalidLink) {
+      for (const { reflection, target } of unresolved) {
+        app.logger.warn(
+          `[typedoc-plugin-mermaid] Failed to resolve link to "${target}" in diagram in comment for ${reflection.getFriendlyFullName()}`,
+        );
+      }
+    }
+
+    addHierarchyDiagrams(context.project, {
+      auto: app.options.getValue('mermaidAutoHierarchy') as boolean,
+      depth: app.options.getValue('mermaidHierarchyDepth') as number,
+      members: app.options.getValue('mermaidHierarchyMembers') as boolean,
+    });
+
+    const graph = addModuleGraph(context.project, {
+      maxNodes: app.options.getValue('mermaidModuleGraphMaxNodes') as number,
+      placement: app.options.getValue(
+        'mermaidModuleGraph',
+      ) as ModuleGraphPlacement,
+    });
+    if (graph && graph.shown < graph.total) {
+      app.logger.info(
+        `[typedoc-plugin-mermaid] Module graph shows ${graph.shown} of ${graph.total} modules; raise mermaidModuleGraphMaxNodes to show more`,
+      );
+    }
+  });
+
   // Track whether we need to copy mermaid (set during page processing)
   let needsMermaidCopy = false;
 
+  // Whether any page loads mermaid, and so needs extension files copied
+  let needsExtensionCopy = false;
+
+  // Whether any page has mermaid blocks, and so needs the files mermaidCsp
+  // writes
+  let needsRuntimeFiles = false;
+
+  // Code of the diagrams pages render in the browser, which decides the
+  // chunks local mode copies
+  const clientDiagrams = new Set<string>();
+
   // Cache the mermaid resolution result to avoid repeated lookups
   let mermaidResolution: MermaidResolutionResult | undefined;
 
+  // Diagrams rendered at build time for the current render cycle
+  let prerendered: PrerenderedDiagrams = new Map();
+
+  // Themes for the current render cycle
+  let themes: MermaidThemes = DEFAULT_MERMAID_THEMES;
+
+  // Mermaid configuration for the current render cycle
+  let mermaidConfig: MermaidConfig = {};
+
+  // The pinned CDN build for the current render cycle, if mermaidCdnPin is on
+  let pinnedCdn: PinnedCdn | undefined;
+
+  // Diagrams rendered to images for Markdown pages in the current render cycle
+  let markdownImages: ReadonlyMap<string, string> = new Map();
+
+  // Images to write next to Markdown pages, keyed by path within the output
+  const imageFiles = new Map<string, string>();
+
+  // Mermaid extensions for the current render cycle
+  let extensions: MermaidExtensions | undefined;
+
+  // Every diagram in the project, if pages' diagrams are recorded in the
+  // current render cycle
+  let projectDiagrams: CollectedDiagram[] | undefined;
+
+  // Whether the current render cycle generates the diagrams page
+  let diagramsPage = false;
+
+  // Diagrams listed on the diagrams page, as pages are transformed
+  const indexedDiagrams: IndexedDiagram[] = [];
+
+  // Whether the current render cycle writes the manifest
+  let manifest = false;
+
+  // Diagrams listed in the manifest, as pages are transformed
+  const processedDiagrams: ProcessedDiagram[] = [];
+
   // Validate mermaid availability early when rendering starts
-  app.renderer.on(Renderer.EVENT_BEGIN, () => {
+  app.renderer.on(Renderer.EVENT_BEGIN, (event: RendererEvent) => {
     // Reset state for each render cycle (important if render is called multiple times)
     needsMermaidCopy = false;
+    needsExtensionCopy = false;
+    needsRuntimeFiles = false;
+    clientDiagrams.clear();
+    extensions = undefined;
+    imageFiles.clear();
+    indexedDiagrams.length = 0;
+    processedDiagrams.length = 0;
+    markdownImages = new Map();
     mermaidResolution = undefined;
+    pinnedCdn = undefined;
+    prerendered = new Map();
+    projectDiagrams = undefined;
+    themes = {
+      dark: {
+        theme: app.options.getValue('mermaidDarkTheme') as MermaidThemeName,
+        themeVariables: app.options.getValue(
+          'mermaidDarkThemeVariables',
+        ) as MermaidThemeVariables,
+      },
+      light: {
+        theme: app.options.getValue('mermaidLightTheme') as MermaidThemeName,
+        themeVariables: app.options.getValue(
+          'mermaidLightThemeVariables',
+        ) as MermaidThemeVariables,
+      },
+    };
+
+    for (const { message, reflection } of collectMermaidBlockProblems(
+      event.project,
+    )) {
+      app.logger.warn(
+        `${message} in ${formatDiagramLocation(reflection, app.renderer.router)}`,
+      );
+    }
+
+    if (app.options.getValue('mermaidAccessibilityWarnings')) {
+      for (const { reflection } of findUndescribedDiagrams(
+        collectMermaidDiagrams(event.project),
+      )) {
+        app.logger.warn(
+          `[typedoc-plugin-mermaid] Diagram in ${reflection.getFriendlyFullName()} has no accessible description; add accDescr to describe it to screen reader users`,
+        );
+      }
+    }
+
+    // Relative config file paths are resolved against the working directory
+    const configLoaded = loadMermaidConfig(
+      app.options.getValue('mermaidConfig'),
+      process.cwd(),
+    );
+    app.renderer.preRenderAsyncJobs.push(async () => {
+      mermaidConfig = await configLoaded;
+      // Fail now rather than on the first page with a diagram
+      serializeMermaidConfig(mergeMermaidConfig(mermaidConfig));
+    });
+
+    const render = app.options.getValue('mermaidRender') as MermaidRenderMode;
+    const markdown = event.pages.some(({ url }) => isMarkdownPage(url));
+    const createRenderer = async (): Promise<MermaidRenderer> => {
+      const rendererPath = app.options.getValue('mermaidRenderer') as string;
+      return rendererPath
+        ? loadMermaidRenderer(rendererPath)
+        : createHeadlessRenderer(await configLoaded);
+    };
+
+    diagramsPage =
+      !markdown && (app.options.getValue('mermaidDiagramsPage') as boolean);
+    manifest = app.options.getValue('mermaidManifest') as boolean;
+    if (diagramsPage || manifest) {
+      projectDiagrams = collectMermaidDiagrams(event.project);
+    }
+    if (diagramsPage && projectDiagrams?.length) {
+      // Hooks added now are removed when rendering ends
+      app.renderer.hooks.on('sidebar.begin', renderDiagramsLink);
+    }
+
+    // Pre-render jobs run concurrently, but Mermaid can't, so diagrams are
+    // validated and then rendered by a single job
+    const mermaidJobs: (() => Promise<void>)[] = [];
+    const validation = app.options.getValue(
+      'mermaidValidation',
+    ) as MermaidValidation;
+
+    if (validation !== 'off') {
+      mermaidJobs.push(async () => {
+        const invalid = await validateMermaidDiagrams(
+          collectMermaidDiagrams(event.project),
+          (code) => runHeadlessMermaid((mermaid) => mermaid.parse(code)),
+        );
+
+        for (const diagram of invalid) {
+          const message = formatInvalidDiagram(diagram, app.renderer.router);
+          if (validation === 'error') {
+            app.logger.error(message);
+          } else {
+            app.logger.warn(message);
+          }
+        }
+
+        if (validation === 'error' && invalid.length) {
+          // Throw error to fail the build - invalid diagrams would ship broken
+          throw new Error(
+            `[typedoc-plugin-mermaid] ${invalid.length} invalid Mermaid diagram(s) found`,
+          );
+        }
+      });
+    }
+
+    if (markdown && app.options.getValue('mermaidMarkdownOutput') === 'svg') {
+      // Page events are synchronous, so render every diagram up front
+      mermaidJobs.push(async () => {
+        const renderer = await createRenderer();
+        try {
+          markdownImages = await renderMermaidImages(
+            renderer,
+            collectMermaidDiagrams(event.project),
+            themes.light,
+            app.logger,
+            app.renderer.router,
+          );
+          app.logger.verbose(
+            `[typedoc-plugin-mermaid] Rendered ${markdownImages.size} diagram(s) to images`,
+          );
+        } finally {
+          await renderer.dispose?.();
+        }
+      });
+    } else if (render === 'build' && !markdown) {
+      // Page events are synchronous, so render every diagram up front
+      mermaidJobs.push(async () => {
+        const renderer = await createRenderer();
+        try {
+          prerendered = await prerenderMermaidDiagrams(
+            renderer,
+            collectMermaidDiagrams(event.project),
+            app.logger,
+            themes,
+            app.renderer.router,
+          );
+          app.logger.verbose(
+            `[typedoc-plugin-mermaid] Pre-rendered ${prerendered.size} diagram(s)`,
+          );
+        } finally {
+          await renderer.dispose?.();
+        }
+      });
+    }
+
+    if (mermaidJobs.length) {
+      app.renderer.preRenderAsyncJobs.push(async () => {
+        for (const job of mermaidJobs) {
+          await job();
+        }
+      });
+    }
 
     const source = app.options.getValue('mermaidSource') as MermaidSource;
 
+    // Relative paths and packages are resolved against the working directory
+    app.renderer.preRenderAsyncJobs.push(async () => {
+      extensions = await resolveMermaidExtensions(
+        {
+          diagrams: app.options.getValue('mermaidExternalDiagrams') as string[],
+          iconPacks: app.options.getValue('mermaidIconPacks') as Record<
+            string,
+            string
+          >,
+          layouts: app.options.getValue('mermaidLayoutLoaders') as string[],
+        },
+        { copy: source === 'local', cwd: process.cwd() },
+      );
+    });
+
     if (source === 'local') {
       mermaidResolution = resolveMermaidDistPath();
       if (!mermaidResolution.ok) {
         // Throw error to fail the build - continuing would produce broken docs
         throw new Error(`[typedoc-plugin-mermaid] ${mermaidResolution.error}`);
       }
+    } else if (app.options.getValue('mermaidCdnPin')) {
+      const resolution = resolveMermaidDistPath();
+      if (!resolution.ok) {
+        // Throw error to fail the build - there is no version to pin
+        throw new Error(`[typedoc-plugin-mermaid] ${resolution.error}`);
+      }
+      const url = formatCdnUrl(
+        app.options.getValue('mermaidCdnTemplate') as string,
+        resolution.version,
+      );
+      app.renderer.preRenderAsyncJobs.push(async () => {
+        pinnedCdn = {
+          integrity: await getSubresourceIntegrity(
+            join(resolution.distPath, MERMAID_ESM_ENTRY),
+          ),
+          url,
+        };
+        app.logger.verbose(
+          `[typedoc-plugin-mermaid] Pinned Mermaid to ${url} (${pinnedCdn.integrity})`,
+        );
+      });
+    } else {
+      const cdnUrl = app.options.getValue('mermaidCdnUrl') as string;
+      const version = getCdnUrlVersion(cdnUrl);
+      if (version && !isSupportedMermaidVersion(version)) {
+        app.logger.warn(
+          `[typedoc-plugin-mermaid] mermaidCdnUrl loads Mermaid ${version}, but the plugin requires Mermaid ${MIN_MERMAID_MAJOR} or later`,
+        );
+      }
     }
   });
 
-  // Process mermaid blocks in final HTML output
+  /**
+   * Get where Mermaid assets are written and loaded from.
+   *
+   * @returns The asset location
+   */
+  const getAssetLocation = (): MermaidAssetLocation => ({
+    assetDir: app.options.getValue('mermaidAssetDir') as string,
+    baseUrl:
+      (app.options.getValue('mermaidAssetBaseUrl') as string) || undefined,
+  });
+
+  /**
+   * Get the options for a page's Mermaid script.
+   *
+   * @param url - The page's URL
+   * @returns The script options
+   */
+  const getScriptOptions = (url: string): MermaidScriptOptions => ({
+    cdnUrl: pinnedCdn?.url ?? (app.options.getValue('mermaidCdnUrl') as string),
+    config: mermaidConfig,
+    cssTheme: app.options.getValue('mermaidCssTheme') as boolean,
+    extensions,
+    integrity: pinnedCdn?.integrity,
+    lazy: app.options.getValue('mermaidLazyRender') as boolean,
+    localPath: getRelativeAssetPath(url, getAssetLocation()),
+    nonce: (app.options.getValue('mermaidCspNonce') as string) || undefined,
+    runtimeUrl: app.options.getValue('mermaidCsp')
+      ? getAssetDirUrl(url, getAssetLocation())
+      : undefined,
+    source: app.options.getValue('mermaidSource') as MermaidSource,
+    toolbar: app.options.getValue('mermaidToolbar') as MermaidToolbarAction[],
+    viewer: {
+      collapseHeight: app.options.getValue('mermaidCollapseHeight') as number,
+      controls: app.options.getValue('mermaidViewer') as boolean,
+    },
+  });
+
+  /**
+   * Note what a processed page needs copied: if it has mermaid blocks, the
+   * files `mermaidCsp` writes; if it loads mermaid, its extensions, and in
+   * local mode mermaid itself and its diagram types.
+   *
+   * @param html - The processed page HTML
+   */
+  const trackMermaidScript = (html: string): void => {
+    if (html.includes(MERMAID_BLOCK_PREFIX)) {
+      needsRuntimeFiles = true;
+    }
+    if (!needsMermaidScript(html)) {
+      return;
+    }
+    needsExtensionCopy = true;
+    if (app.options.getValue('mermaidSource') === 'local') {
+      needsMermaidCopy = true;
+      for (const code of getClientDiagramCodes(html)) {
+        clientDiagrams.add(code);
+      }
+    }
+  };
+
+  /**
+   * Find the reflection whose documentation contains a diagram on a page.
+   *
+   * @param code - Plain code of the diagram
+   * @param page - The page
+   * @returns The owning reflection
+   */
+  const findOwner = (code: string, page: PageEvent<Reflection>): Reflection => {
+    const { router } = app.renderer;
+    return findDiagramOwner(code, page, projectDiagrams ?? [], (reflection) =>
+      router?.hasUrl(reflection) ? router.getFullUrl(reflection) : undefined,
+    );
+  };
+
+  // Process mermaid blocks in final HTML output, or fences in Markdown output
   app.renderer.on(Renderer.EVENT_END_PAGE, (page: PageEvent) => {
-    if (page.contents) {
-      const source = app.options.getValue('mermaidSource') as MermaidSource;
-      const cdnUrl = app.options.getValue('mermaidCdnUrl') as string;
-      const localPath = getRelativeAssetPath(page.url);
+    if (!page.contents) {
+      return;
+    }
 
-      const options: MermaidScriptOptions = {
-        cdnUrl,
-        localPath,
-        source,
-      };
+    // Point generated links at the target pages, relative to this one
+    const resolveUrl = (id: number) => {
+      const target = page.project.getReflectionById(id);
+      const { router } = app.renderer;
+      return target && router?.hasUrl(target)
+        ? router.relativeUrl(page.model, target)
+        : undefined;
+    };
+
+    // Point links in recorded diagrams at the target pages, relative to the
+    // output directory, as the manifest's sources are
+    const resolveFullUrl = (id: number) => {
+      const target = page.project.getReflectionById(id);
+      const { router } = app.renderer;
+      return target && router?.hasUrl(target)
+        ? router.getFullUrl(target)
+        : undefined;
+    };
 
-      const originalContents = page.contents;
-      page.contents = processMermaidPage(page.contents, options);
+    if (isMarkdownPage(page.url)) {
+      const output = app.options.getValue(
+        'mermaidMarkdownOutput',
+      ) as MermaidMarkdownOutput;
+
+      // Record the page's diagrams as written, before they're transformed
+      if (manifest && page.isReflectionEvent()) {
+        replaceMermaidFences(page.contents, ({ code, options }) => {
+          const metadata = getDiagramMetadata(code);
+          processedDiagrams.push({
+            code: resolveReflectionPlaceholders(code, resolveFullUrl),
+            pageUrl: page.url,
+            reflection: findOwner(code, page),
+            title: options.title ?? metadata.title ?? metadata.accTitle,
+          });
+          return undefined;
+        });
+      }
 
-      // If page was modified and we're in local mode, we need to copy mermaid
-      if (source === 'local' && page.contents !== originalContents) {
-        needsMermaidCopy = true;
+      if (output === 'svg') {
+        page.contents = replaceMermaidFencesWithImages(
+          page.contents,
+          (code) => {
+            const svg = markdownImages.get(code);
+            if (!svg) {
+              return undefined;
+            }
+            const hash = createHash('sha256')
+              .update(code)
+              .digest('hex')
+              .slice(0, 8);
+            const name = `mermaid-${hash}.svg`;
+            // Images sit next to the page, so links in them resolve the same
+            imageFiles.set(
+              join(dirname(page.url), name),
+              resolveReflectionPlaceholders(svg, resolveUrl),
+            );
+            return name;
+          },
+        );
+      } else if (output === 'normalize') {
+        page.contents = normalizeMermaidFences(page.contents);
       }
+
+      page.contents = resolveReflectionPlaceholders(page.contents, resolveUrl);
+      return;
+    }
+
+    const numbered = app.options.getValue('mermaidFigureNumbers') as boolean;
+
+    page.contents = processMermaidPage(
+      page.contents,
+      getScriptOptions(page.url),
+      prerendered,
+      themes,
+      numbered,
+    );
+
+    // Record the page's diagrams before their links are resolved, since the
+    // diagrams page resolves them again
+    if (projectDiagrams && page.isReflectionEvent()) {
+      for (const figure of getPageFigures(page.contents, numbered)) {
+        const reflection = findOwner(figure.code, page);
+        if (manifest) {
+          processedDiagrams.push({
+            anchor: figure.id,
+            code: resolveReflectionPlaceholders(figure.code, resolveFullUrl),
+            pageUrl: page.url,
+            reflection,
+            title: figure.title,
+          });
+        }
+        if (diagramsPage) {
+          const previewId = `mermaid-index-${indexedDiagrams.length + 1}`;
+          indexedDiagrams.push({
+            anchor: figure.id,
+            module: getDiagramModule(reflection),
+            pageUrl: page.url,
+            // Figures from different pages may share ids, and so descriptions
+            preview:
+              getBlockStart({}, previewId) +
+              figure.content.replaceAll(
+                `"${figure.id}-description"`,
+                `"${previewId}-description"`,
+              ) +
+              MERMAID_BLOCK_END,
+            reflection,
+            title: figure.title,
+            type: getDiagramKeyword(figure.code) ?? 'unknown',
+          });
+        }
+      }
+    }
+
+    page.contents = resolveReflectionPlaceholders(page.contents, resolveUrl);
+    trackMermaidScript(page.contents);
+  });
+
+  // Write the diagrams page once every page has been indexed. This job comes
+  // before those copying files, which need to know whether the page loads
+  // mermaid before they start.
+  app.renderer.postRenderAsyncJobs.push(async (event) => {
+    if (!diagramsPage || !indexedDiagrams.length) {
+      return;
+    }
+    const { router, theme } = app.renderer;
+    if (!(theme instanceof DefaultTheme) || !router) {
+      app.logger.warn(
+        `[typedoc-plugin-mermaid] Skipping ${DIAGRAMS_PAGE_URL}: mermaidDiagramsPage needs TypeDoc's default theme, or one extending it`,
+      );
+      return;
+    }
+
+    const page = new PageEvent(event.project);
+    page.url = DIAGRAMS_PAGE_URL;
+    page.filename = join(event.outputDirectory, DIAGRAMS_PAGE_URL);
+    page.pageKind = PageKind.Index;
+    page.project = event.project;
+
+    let html = processMermaidPage(
+      renderDiagramsPage(
+        theme,
+        page,
+        indexedDiagrams,
+        app.options.getValue('mermaidCsp') as boolean,
+        (app.options.getValue('mermaidCspNonce') as string) || undefined,
+      ),
+      getScriptOptions(page.url),
+      prerendered,
+      themes,
+    );
+    html = resolveReflectionPlaceholders(html, (id) => {
+      const target = event.project.getReflectionById(id);
+      return target && router.hasUrl(target)
+        ? router.relativeUrl(event.project, target)
+        : undefined;
+    });
+    trackMermaidScript(html);
+
+    try {
+      await writeFile(page.filename, html);
+      app.logger.info(
+        `[typedoc-plugin-mermaid] Listed ${indexedDiagrams.length} diagram(s) in ${page.filename}`,
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      app.logger.error(
+        `[typedoc-plugin-mermaid] Failed to write the diagrams page: ${message}`,
+      );
+    }
+  });
+
+  // Write the styles and scripts pages load instead of inlining them
+  app.renderer.postRenderAsyncJobs.push(async (event) => {
+    if (!app.options.getValue('mermaidCsp') || !needsRuntimeFiles) {
+      return;
+    }
+
+    const destDir = join(
+      event.outputDirectory,
+      normalizeAssetDir(getAssetLocation().assetDir),
+    );
+
+    try {
+      const files = getRuntimeFiles(
+        getScriptOptions(''),
+        themes,
+        diagramsPage ? DIAGRAMS_PAGE_STYLE : '',
+      );
+      await mkdir(destDir, { recursive: true });
+      for (const [name, contents] of files) {
+        await writeFile(join(destDir, name), contents);
+      }
+      app.logger.info(
+        `[typedoc-plugin-mermaid] Wrote ${files.size} style and script file(s) to ${destDir}`,
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      app.logger.error(
+        `[typedoc-plugin-mermaid] Failed to write Mermaid style and script files: ${message}`,
+      );
     }
   });
 
@@ -449,7 +2470,11 @@ export const load = (app: Application): void => {
     }
 
     const { distPath } = resolution;
-    const destDir = join(event.outputDirectory, 'assets', 'mermaid');
+    const destDir = join(
+      event.outputDirectory,
+      normalizeAssetDir(getAssetLocation().assetDir),
+    );
+    const chunksDir = join(distPath, MERMAID_CHUNKS_DIR);
 
     try {
       await mkdir(destDir, { recursive: true });
@@ -460,20 +2485,113 @@ export const load = (app: Application): void => {
         join(destDir, MERMAID_ESM_ENTRY),
       );
 
-      // Copy the chunks directory (lazy-loaded diagram types)
-      await cp(
-        join(distPath, MERMAID_CHUNKS_DIR),
-        join(destDir, MERMAID_CHUNKS_DIR),
-        { recursive: true },
+      // Copy the chunks (lazy-loaded diagram types) the pages' diagrams need
+      const selection = await selectMermaidChunks(
+        join(distPath, MERMAID_ESM_ENTRY),
+        chunksDir,
+        clientDiagrams,
+        Object.keys(mermaidConfig).length > 0,
       );
 
+      if (selection.ok) {
+        const { copied, saved, total } = await copyMermaidChunks(
+          chunksDir,
+          join(destDir, MERMAID_CHUNKS_DIR),
+          selection.chunks,
+        );
+        app.logger.info(
+          `[typedoc-plugin-mermaid] Copied mermaid ESM files to ${destDir} (${copied} of ${total} chunks, saving ${saved} bytes)`,
+        );
+      } else {
+        // Fall back to copying every chunk
+        app.logger.info(
+          `[typedoc-plugin-mermaid] Could not tell which Mermaid chunks diagram type "${selection.keyword}" needs; copying all of them`,
+        );
+        await cp(chunksDir, join(destDir, MERMAID_CHUNKS_DIR), {
+          recursive: true,
+        });
+        app.logger.info(
+          `[typedoc-plugin-mermaid] Copied mermaid ESM files to ${destDir}`,
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      app.logger.error(
+        `[typedoc-plugin-mermaid] Failed to copy mermaid files: ${message}`,
+      );
+    }
+  });
+
+  // Copy extension files served with the docs, whichever way mermaid loads
+  app.renderer.postRenderAsyncJobs.push(async (event) => {
+    if (!needsExtensionCopy || !extensions) {
+      return;
+    }
+
+    const destDir = join(
+      event.outputDirectory,
+      normalizeAssetDir(getAssetLocation().assetDir),
+    );
+
+    try {
+      const copied = await copyMermaidExtensions(extensions, destDir);
+      if (copied) {
+        app.logger.info(
+          `[typedoc-plugin-mermaid] Copied ${copied} Mermaid extension file(s) to ${destDir}`,
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      app.logger.error(
+        `[typedoc-plugin-mermaid] Failed to copy Mermaid extension files: ${message}`,
+      );
+    }
+  });
+
+  // Write images of diagrams next to Markdown pages
+  app.renderer.postRenderAsyncJobs.push(async (event) => {
+    try {
+      for (const [path, svg] of imageFiles) {
+        const file = join(event.outputDirectory, path);
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(file, svg);
+      }
+      if (imageFiles.size) {
+        app.logger.info(
+          `[typedoc-plugin-mermaid] Wrote ${imageFiles.size} diagram image(s) to ${event.outputDirectory}`,
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      app.logger.error(
+        `[typedoc-plugin-mermaid] Failed to write diagram images: ${message}`,
+      );
+    }
+  });
+
+  // Write the manifest of every diagram processed, with their sources
+  app.renderer.postRenderAsyncJobs.push(async (event) => {
+    if (!manifest) {
+      return;
+    }
+
+    try {
+      const written = await writeMermaidManifest(
+        processedDiagrams,
+        event.outputDirectory,
+      );
       app.logger.info(
-        `[typedoc-plugin-mermaid] Copied mermaid ESM files to ${destDir}`,
+        `[typedoc-plugin-mermaid] Wrote a manifest of ${written.diagrams.length} diagram(s) to ${join(event.outputDirectory, MANIFEST_FILE)}`,
       );
+      if (written.diagrams.length) {
+        for (const line of summarizeMermaidManifest(written)) {
+          app.logger.info(`[typedoc-plugin-mermaid] ${line}`);
+        }
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       app.logger.error(
-        `[typedoc-plugin-mermaid] Failed to copy mermaid files: ${message}`,
+        `[typedoc-plugin-mermaid] Failed to write the diagram manifest: ${message}`,
       );
     }
   });
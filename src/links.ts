@@ -0,0 +1,38 @@
+/**
+ * Links from diagrams to reflection pages.
+ *
+ * Diagrams are generated before pages exist, and the same diagram source may be
+ * rendered on pages at different depths, so links are written as placeholders
+ * and resolved once the page they end up on is known.
+ *
+ * @packageDocumentation
+ */
+import { type Reflection } from 'typedoc';
+
+/**
+ * Matches a reflection link placeholder, capturing the reflection id.
+ */
+const PLACEHOLDER = /__typedoc_ref_(\d+)__/g;
+
+/**
+ * Get the placeholder URL for a link to a reflection.
+ *
+ * @param reflection - The link target
+ * @returns The placeholder
+ */
+export const toReflectionPlaceholder = (reflection: Reflection): string =>
+  `__typedoc_ref_${reflection.id}__`;
+
+/**
+ * Replace reflection link placeholders with real URLs.
+ *
+ * @param html - Page HTML containing placeholders
+ * @param resolveUrl - Returns the URL of a reflection relative to the page, or
+ *   `undefined` if it has none
+ * @returns The HTML with placeholders replaced; unresolvable links point to `#`
+ */
+export const resolveReflectionPlaceholders = (
+  html: string,
+  resolveUrl: (id: number) => string | undefined,
+): string =>
+  html.replace(PLACEHOLDER, (_, id: string) => resolveUrl(Number(id)) || '#');
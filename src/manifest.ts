@@ -0,0 +1,221 @@
+/**
+ * A manifest of every diagram the plugin processed, with each diagram's source
+ * exported as a `.mmd` file, for tooling outside the documentation.
+ *
+ * @packageDocumentation
+ */
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { type Reflection, ReflectionKind } from 'typedoc';
+
+import { getDiagramKeyword } from './chunks.js';
+
+/**
+ * Name of the manifest, in the output directory.
+ */
+export const MANIFEST_FILE = 'mermaid-manifest.json';
+
+/**
+ * Directory of exported diagram sources, in the output directory.
+ */
+export const MANIFEST_SOURCES_DIR = 'mermaid-sources';
+
+/**
+ * The manifest written to {@link MANIFEST_FILE}.
+ */
+export interface MermaidManifest {
+  /**
+   * Each diagram processed, in page order.
+   */
+  diagrams: MermaidManifestEntry[];
+}
+
+/**
+ * A diagram as listed in the manifest.
+ */
+export interface MermaidManifestEntry {
+  /**
+   * The figure's anchor id on its page; Markdown pages have none.
+   */
+  anchor?: string;
+
+  /**
+   * Path of the diagram's exported source, relative to the output directory.
+   */
+  file: string;
+
+  /**
+   * Hash of the diagram's code, which names its source file.
+   */
+  hash: string;
+
+  /**
+   * Kind of the reflection the diagram belongs to, such as `Class`, as named by
+   * TypeDoc's `ReflectionKind`.
+   */
+  kind: string;
+
+  /**
+   * URL of the page the diagram appears on, relative to the output directory.
+   */
+  page: string;
+
+  /**
+   * Full name of the reflection the diagram belongs to.
+   */
+  reflection: string;
+
+  /**
+   * Where the reflection is declared, if it has a source.
+   */
+  source?: {
+    /**
+     * Path of the source file, as TypeDoc displays it.
+     */
+    file: string;
+
+    /**
+     * Line of the declaration, starting from 1.
+     */
+    line: number;
+  };
+
+  /**
+   * The diagram's title, if it has one.
+   */
+  title?: string;
+
+  /**
+   * The keyword declaring the diagram's type, such as `flowchart`.
+   */
+  type: string;
+}
+
+/**
+ * A diagram recorded as a page was transformed.
+ */
+export interface ProcessedDiagram {
+  /**
+   * The figure's anchor id, for HTML pages.
+   */
+  anchor?: string;
+
+  /**
+   * Plain Mermaid code of the diagram.
+   */
+  code: string;
+
+  /**
+   * URL of the page, relative to the output directory.
+   */
+  pageUrl: string;
+
+  /**
+   * The reflection whose documentation contains the diagram.
+   */
+  reflection: Reflection;
+
+  /**
+   * The diagram's title, if it has one.
+   */
+  title?: string;
+}
+
+/**
+ * Hash a diagram's code, to name its source file. The same diagram always gets
+ * the same name, so files stay put between builds.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The hash, in hex
+ */
+export const getDiagramHash = (code: string): string =>
+  createHash('sha256').update(code).digest('hex').slice(0, 12);
+
+/**
+ * Build the manifest of processed diagrams.
+ *
+ * @param diagrams - The diagrams, in page order
+ * @returns The manifest
+ */
+export const buildMermaidManifest = (
+  diagrams: readonly ProcessedDiagram[],
+): MermaidManifest => ({
+  diagrams: diagrams.map(({ anchor, code, pageUrl, reflection, title }) => {
+    const hash = getDiagramHash(code);
+    const [source] = reflection.isDeclaration()
+      ? (reflection.sources ?? [])
+      : [];
+    return {
+      anchor,
+      file: `${MANIFEST_SOURCES_DIR}/${hash}.mmd`,
+      hash,
+      kind: ReflectionKind[reflection.kind],
+      page: pageUrl,
+      reflection: reflection.getFriendlyFullName(),
+      source: source && { file: source.fileName, line: source.line },
+      title,
+      type: getDiagramKeyword(code) ?? 'unknown',
+    };
+  }),
+});
+
+/**
+ * Write the manifest and each diagram's source to the output directory.
+ *
+ * A diagram which appears on several pages is exported once.
+ *
+ * @param diagrams - The diagrams, in page order
+ * @param outputDirectory - The output directory
+ * @returns The manifest written
+ */
+export const writeMermaidManifest = async (
+  diagrams: readonly ProcessedDiagram[],
+  outputDirectory: string,
+): Promise<MermaidManifest> => {
+  const manifest = buildMermaidManifest(diagrams);
+
+  await mkdir(join(outputDirectory, MANIFEST_SOURCES_DIR), { recursive: true });
+  const written = new Set<string>();
+  for (const [index, { file }] of manifest.diagrams.entries()) {
+    if (!written.has(file)) {
+      written.add(file);
+      await writeFile(
+        join(outputDirectory, file),
+        `${diagrams[index]!.code}\n`,
+      );
+    }
+  }
+  await writeFile(
+    join(outputDirectory, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  );
+
+  return manifest;
+};
+
+/**
+ * Summarize a manifest for the log: how many diagrams each page and each
+ * diagram type has.
+ *
+ * @param manifest - The manifest
+ * @returns One line for pages, and one for types, each listed by name
+ */
+export const summarizeMermaidManifest = ({
+  diagrams,
+}: MermaidManifest): string[] => {
+  const count = (key: 'page' | 'type') => {
+    const counts = new Map<string, number>();
+    for (const diagram of diagrams) {
+      counts.set(diagram[key], (counts.get(diagram[key]) ?? 0) + 1);
+    }
+    return [...counts]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, n]) => `${name} (${n})`)
+      .join(', ');
+  };
+  return [
+    `Diagrams per page: ${count('page')}`,
+    `Diagrams per type: ${count('type')}`,
+  ];
+};
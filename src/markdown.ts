@@ -0,0 +1,224 @@
+/**
+ * Mermaid diagrams in Markdown output, as written by typedoc-plugin-markdown.
+ *
+ * Markdown pages keep diagrams as `mermaid` fences, whose info string options
+ * only this plugin understands. They can be kept as they are, normalized to the
+ * plain fences GitHub, GitLab and Docusaurus (with its Mermaid theme) render
+ * themselves, or replaced by images of diagrams rendered at build time.
+ *
+ * @packageDocumentation
+ */
+import { type Logger, type Reflection, type Router } from 'typedoc';
+
+import {
+  getBlockDiagramCode,
+  type MermaidBlockOptions,
+  parseMermaidBlockInfo,
+} from './blocks.js';
+import { type CollectedDiagram } from './collect.js';
+import { getDiagramMetadata } from './figures.js';
+import { type MermaidRenderer } from './renderer.js';
+import { applyMermaidTheme, type MermaidTheme } from './themes.js';
+import { formatDiagramLocation } from './validate.js';
+
+/**
+ * What to do with diagrams in Markdown output.
+ */
+export const MERMAID_MARKDOWN_OUTPUTS = ['keep', 'normalize', 'svg'] as const;
+
+/**
+ * A `mermaid` fence in a Markdown page.
+ */
+export interface MermaidFence {
+  /**
+   * The fence's Mermaid code, trimmed and without its indentation.
+   */
+  code: string;
+
+  /**
+   * Options from the fence's info string.
+   */
+  options: MermaidBlockOptions;
+}
+
+/**
+ * What to do with diagrams in Markdown output.
+ */
+export type MermaidMarkdownOutput = (typeof MERMAID_MARKDOWN_OUTPUTS)[number];
+
+/**
+ * Matches a Markdown page's file name; typedoc-plugin-markdown writes `.mdx`
+ * for MDX-based sites.
+ */
+const MARKDOWN_PAGE = /\.mdx?$/;
+
+/**
+ * Matches a fenced `mermaid` block, capturing its indentation, fence, info
+ * string and code.
+ */
+const MERMAID_FENCE =
+  /^([ \t]*)(`{3,}|~{3,})[ \t]*mermaid\b([^\n]*)\n([\s\S]*?)^[ \t]*\2[ \t]*$/gm;
+
+/**
+ * Matches a run of backticks at the start of a line, which a fence around the
+ * code must be longer than.
+ */
+const BACKTICK_RUN = /^[ \t]*(`+)/gm;
+
+/**
+ * Characters escaped in text written into a page. GitHub and GitLab render `$`
+ * as math, and MDX, which Docusaurus uses, reads `{` as an expression; escaping
+ * punctuation with a backslash is safe in all of them.
+ */
+const ESCAPED = /[\\`*_[\]<>#${}]/g;
+
+/**
+ * Check whether a page is Markdown rather than HTML.
+ *
+ * @param url - The page's URL, relative to the output directory
+ * @returns `true` for Markdown and MDX pages
+ */
+export const isMarkdownPage = (url: string): boolean => MARKDOWN_PAGE.test(url);
+
+/**
+ * Replace the `mermaid` fences of a Markdown page.
+ *
+ * @param markdown - The page
+ * @param replace - Returns the Markdown replacing a fence, or `undefined` to
+ *   keep it
+ * @returns The page with its fences replaced
+ */
+export const replaceMermaidFences = (
+  markdown: string,
+  replace: (fence: MermaidFence) => string | undefined,
+): string =>
+  markdown.replace(
+    MERMAID_FENCE,
+    (fence, indent: string, _: string, info: string, code: string) => {
+      const replacement = replace({
+        code: code.replace(new RegExp(`^${indent}`, 'gm'), '').trim(),
+        options: parseMermaidBlockInfo(info.trim()).options,
+      });
+      return replacement === undefined
+        ? fence
+        : replacement.replace(/^(?=.)/gm, indent);
+    },
+  );
+
+/**
+ * Escape text for a Markdown or MDX paragraph.
+ *
+ * @param text - Plain text
+ * @returns The escaped text
+ */
+const escapeMarkdown = (text: string): string => text.replace(ESCAPED, '\\$&');
+
+/**
+ * Put the title a fence loses, if it has one, above its replacement.
+ *
+ * @param content - The replacement
+ * @param options - The fence's options
+ * @returns The replacement, with its title
+ */
+const addTitle = (content: string, { title }: MermaidBlockOptions): string =>
+  title ? `**${escapeMarkdown(title)}**\n\n${content}` : content;
+
+/**
+ * Normalize `mermaid` fences to plain fences, which GitHub, GitLab and
+ * Docusaurus all render the same way.
+ *
+ * Each fence's theme is folded into its code and its title becomes a bold
+ * paragraph above it. Its other options have no equivalent in Markdown and are
+ * dropped.
+ *
+ * @param markdown - The page
+ * @returns The page with its fences normalized
+ */
+export const normalizeMermaidFences = (markdown: string): string =>
+  replaceMermaidFences(markdown, ({ code, options }) => {
+    const diagram = getBlockDiagramCode(code, options);
+    const longest = Math.max(
+      2,
+      ...[...diagram.matchAll(BACKTICK_RUN)].map(([, run]) => run!.length),
+    );
+    const fence = '`'.repeat(longest + 1);
+    return addTitle(`${fence}mermaid\n${diagram}\n${fence}`, options);
+  });
+
+/**
+ * Replace `mermaid` fences with images of diagrams rendered at build time.
+ *
+ * The image's alternative text is the diagram's `accTitle`, or its title.
+ * Fences whose diagram wasn't rendered are kept.
+ *
+ * @param markdown - The page
+ * @param getImageUrl - Returns the URL of a diagram's image, relative to the
+ *   page, given the code it was rendered from
+ * @returns The page with its fences replaced
+ */
+export const replaceMermaidFencesWithImages = (
+  markdown: string,
+  getImageUrl: (code: string) => string | undefined,
+): string =>
+  replaceMermaidFences(markdown, ({ code, options }) => {
+    const url = getImageUrl(getBlockDiagramCode(code, options));
+    if (!url) {
+      return undefined;
+    }
+    const { accTitle, title } = getDiagramMetadata(code);
+    const alt = accTitle ?? options.title ?? title ?? 'Diagram';
+    return addTitle(`![${escapeMarkdown(alt)}](${url})`, options);
+  });
+
+/**
+ * Render diagrams to SVG images for Markdown pages.
+ *
+ * Markdown pages can't switch themes, so each diagram is rendered once, in the
+ * given theme. Diagrams are rendered one at a time, and one which fails to
+ * render is logged, with where it's documented, and left out of the result, so
+ * its fence is kept.
+ *
+ * @param renderer - The renderer to use
+ * @param diagrams - The diagrams; duplicate code is rendered once
+ * @param theme - The theme to render in
+ * @param logger - Logger for render failures
+ * @param router - The renderer's router, used to name the page of a diagram
+ *   which fails to render
+ * @returns The SVGs, keyed by code
+ */
+export const renderMermaidImages = async (
+  renderer: MermaidRenderer,
+  diagrams: Iterable<CollectedDiagram>,
+  theme: MermaidTheme,
+  logger?: Logger,
+  router?: Router,
+): Promise<Map<string, string>> => {
+  const images = new Map<string, string>();
+  // The first reflection documenting each diagram, for failure messages
+  const reflections = new Map<string, Reflection>();
+  for (const { code, reflection } of diagrams) {
+    if (!reflections.has(code)) {
+      reflections.set(code, reflection);
+    }
+  }
+  let index = 0;
+
+  for (const [code, reflection] of reflections) {
+    try {
+      images.set(
+        code,
+        await renderer.render(
+          `mermaid-image-${index++}`,
+          applyMermaidTheme(code, theme),
+        ),
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger?.warn(
+        `[typedoc-plugin-mermaid] Failed to render diagram in ${formatDiagramLocation(reflection, router)} for Markdown output, keeping its code: ${message}`,
+      );
+    }
+  }
+
+  return images;
+};
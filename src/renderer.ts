@@ -0,0 +1,428 @@
+/**
+ * Build-time rendering of Mermaid diagrams to SVG.
+ *
+ * @packageDocumentation
+ */
+import { type DOMWindow, type JSDOM as JSDOMType } from 'jsdom';
+import { type Mermaid, type MermaidConfig } from 'mermaid';
+import { pathToFileURL } from 'node:url';
+
+import { mergeMermaidConfig } from './config.js';
+
+/**
+ * Renders Mermaid diagram definitions to SVG at build time.
+ *
+ * Implement this to plug in a different rendering backend (e.g. a real headless
+ * browser) via the `mermaidRenderer` option.
+ */
+export interface MermaidRenderer {
+  /**
+   * Release any resources held by the renderer.
+   *
+   * Called once all diagrams of a render cycle have been rendered.
+   */
+  dispose?: () => Promise<void> | void;
+
+  /**
+   * Render a diagram definition to an SVG string.
+   *
+   * @param id - A unique id for the generated `<svg>` element
+   * @param code - The Mermaid code, including any `%%{init}%%` directive
+   * @returns The SVG markup
+   */
+  render: (id: string, code: string) => Promise<string>;
+}
+
+/**
+ * Approximate width of a character, relative to the font size.
+ */
+const CHAR_WIDTH_RATIO = 0.6;
+
+/**
+ * Font size (in px) assumed when estimating text dimensions.
+ */
+const FONT_SIZE = 16;
+
+/**
+ * A bounding box, as returned by `SVGGraphicsElement.getBBox()`.
+ */
+interface BBox {
+  height: number;
+  width: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Read a numeric attribute, defaulting to zero.
+ *
+ * @param el - The element
+ * @param name - The attribute name
+ * @returns The attribute value
+ */
+const numAttr = (el: Element, name: string): number =>
+  Number.parseFloat(el.getAttribute(name) ?? '') || 0;
+
+/**
+ * Extract all numbers from an attribute such as a path's `d`.
+ *
+ * @param value - The attribute value
+ * @returns The numbers, in order
+ */
+const numbersIn = (value: null | string): number[] =>
+  (value?.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+
+/**
+ * Compute the bounding box of a flat list of x/y coordinate pairs.
+ *
+ * Path commands are treated as if all coordinates were absolute, which holds
+ * for the paths Mermaid generates.
+ *
+ * @param coords - Alternating x and y coordinates
+ * @returns The bounding box
+ */
+const boundsOf = (coords: number[]): BBox => {
+  const xs = coords.filter((_, i) => i % 2 === 0);
+  const ys = coords.filter((_, i) => i % 2 === 1);
+  if (!ys.length) {
+    return { height: 0, width: 0, x: 0, y: 0 };
+  }
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    height: Math.max(...ys) - y,
+    width: Math.max(...xs) - x,
+    x,
+    y,
+  };
+};
+
+/**
+ * Estimate the rendered size of an element's text.
+ *
+ * @param el - The element containing the text
+ * @returns The estimated width and height
+ */
+const estimateText = (el: Element): Pick<BBox, 'height' | 'width'> => {
+  const text = el.textContent ?? '';
+  if (!text) {
+    return { height: 0, width: 0 };
+  }
+  const lines = text.split('\n');
+  const longest = Math.max(...lines.map((line) => line.length));
+  return {
+    height: lines.length * FONT_SIZE * 1.2,
+    width: longest * FONT_SIZE * CHAR_WIDTH_RATIO,
+  };
+};
+
+/**
+ * Estimate the bounding box of an SVG element without a layout engine.
+ *
+ * Text is sized from its character count, basic shapes from their geometry
+ * attributes and anything else from the union of its children.
+ *
+ * @param el - The element to measure
+ * @returns The estimated bounding box
+ */
+const estimateBBox = (el: Element): BBox => {
+  switch (el.localName) {
+    case 'circle': {
+      const r = numAttr(el, 'r');
+      return {
+        height: r * 2,
+        width: r * 2,
+        x: numAttr(el, 'cx') - r,
+        y: numAttr(el, 'cy') - r,
+      };
+    }
+    case 'ellipse': {
+      const rx = numAttr(el, 'rx');
+      const ry = numAttr(el, 'ry');
+      return {
+        height: ry * 2,
+        width: rx * 2,
+        x: numAttr(el, 'cx') - rx,
+        y: numAttr(el, 'cy') - ry,
+      };
+    }
+    case 'foreignObject':
+    case 'image':
+    case 'rect':
+      return {
+        height: numAttr(el, 'height'),
+        width: numAttr(el, 'width'),
+        x: numAttr(el, 'x'),
+        y: numAttr(el, 'y'),
+      };
+    case 'line':
+      return boundsOf([
+        numAttr(el, 'x1'),
+        numAttr(el, 'y1'),
+        numAttr(el, 'x2'),
+        numAttr(el, 'y2'),
+      ]);
+    case 'path':
+      return boundsOf(numbersIn(el.getAttribute('d')));
+    case 'polygon':
+    case 'polyline':
+      return boundsOf(numbersIn(el.getAttribute('points')));
+    case 'text':
+    case 'tspan':
+      return {
+        ...estimateText(el),
+        x: numAttr(el, 'x'),
+        y: numAttr(el, 'y') - FONT_SIZE,
+      };
+  }
+
+  const boxes = [...el.children]
+    .map(estimateBBox)
+    .filter(({ height, width }) => width > 0 || height > 0);
+  if (!boxes.length) {
+    return { height: 0, width: 0, x: 0, y: 0 };
+  }
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  return {
+    height: Math.max(...boxes.map((box) => box.y + box.height)) - y,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) - x,
+    x,
+    y,
+  };
+};
+
+/**
+ * Browser globals Mermaid and DOMPurify expect.
+ */
+const BROWSER_GLOBALS = [
+  'window',
+  'document',
+  'DOMParser',
+  'CSSStyleSheet',
+  'Element',
+  'HTMLElement',
+  'SVGElement',
+] as const;
+
+/**
+ * Mermaid loaded into the shared headless environment, once per process.
+ *
+ * Mermaid and DOMPurify bind to the jsdom window when first imported, so the
+ * window is kept and reused for every render.
+ */
+let headlessMermaid: Promise<Mermaid> | undefined;
+
+/**
+ * The jsdom window Mermaid was loaded into.
+ */
+let headlessWindow: DOMWindow | undefined;
+
+/**
+ * The most recently queued call into Mermaid.
+ */
+let lastCall: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a call into Mermaid with the jsdom window's browser globals installed.
+ *
+ * Mermaid isn't safe to use concurrently, so calls are queued and run one at a
+ * time. The globals are removed again when each call finishes, so they don't
+ * leak into TypeDoc or other plugins between calls; those may check for a
+ * `window` to detect a browser. Globals a host environment already provides are
+ * left alone.
+ *
+ * @param window - The jsdom window
+ * @param fn - The call
+ * @returns The call's result
+ */
+const withBrowserGlobals = <T>(
+  window: DOMWindow,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  const call = lastCall.then(async () => {
+    const globals = globalThis as Record<string, unknown>;
+    const installed = BROWSER_GLOBALS.filter(
+      (name) => globals[name] === undefined,
+    );
+    for (const name of installed) {
+      globals[name] = window[name];
+    }
+    try {
+      return await fn();
+    } finally {
+      for (const name of installed) {
+        delete globals[name];
+      }
+    }
+  });
+  // A failed call doesn't stop the ones queued after it
+  lastCall = call.catch(() => {});
+  return call;
+};
+
+/**
+ * Set up a jsdom window with layout estimates and load Mermaid into it.
+ *
+ * @returns The Mermaid API
+ */
+const loadHeadlessMermaid = async (): Promise<Mermaid> => {
+  let JSDOM: typeof JSDOMType;
+  try {
+    ({ JSDOM } = await import('jsdom'));
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'MODULE_NOT_FOUND' || code === 'ERR_MODULE_NOT_FOUND') {
+      throw new Error(
+        'jsdom package not found. Install it with: npm install jsdom -D',
+      );
+    }
+    throw err;
+  }
+  const { window } = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+    pretendToBeVisual: true,
+  });
+
+  const svgProto = window.SVGElement.prototype as unknown as Record<
+    string,
+    unknown
+  >;
+  svgProto.getBBox = function (this: Element) {
+    return estimateBBox(this);
+  };
+  svgProto.getComputedTextLength = function (this: Element) {
+    return estimateBBox(this).width;
+  };
+
+  // Some diagram types measure HTML labels regardless of `htmlLabels`
+  const htmlProto = window.HTMLElement.prototype as unknown as Record<
+    string,
+    unknown
+  >;
+  htmlProto.getBoundingClientRect = function (this: Element) {
+    const { height, width } = estimateText(this);
+    return {
+      bottom: height,
+      height,
+      left: 0,
+      right: width,
+      top: 0,
+      width,
+      x: 0,
+      y: 0,
+    };
+  };
+
+  const { default: mermaid } = await withBrowserGlobals(
+    window,
+    () => import('mermaid'),
+  );
+  headlessWindow = window;
+  return mermaid;
+};
+
+/**
+ * Get Mermaid running in a headless jsdom environment.
+ *
+ * The environment is set up on first use and shared by all callers. Its browser
+ * globals aren't installed between calls; call Mermaid through
+ * {@link runHeadlessMermaid}.
+ *
+ * @returns The Mermaid API
+ */
+export const getHeadlessMermaid = (): Promise<Mermaid> => {
+  headlessMermaid ??= loadHeadlessMermaid().catch((err: unknown) => {
+    // Allow a retry, e.g. after installing a missing dependency in watch mode
+    headlessMermaid = undefined;
+    throw err;
+  });
+  return headlessMermaid;
+};
+
+/**
+ * Call Mermaid in the headless jsdom environment.
+ *
+ * Calls run one at a time, and browser globals are only installed while a call
+ * runs; use this rather than calling the API from {@link getHeadlessMermaid}
+ * directly.
+ *
+ * @param fn - Calls Mermaid
+ * @returns The call's result
+ */
+export const runHeadlessMermaid = async <T>(
+  fn: (mermaid: Mermaid) => Promise<T> | T,
+): Promise<T> => {
+  const mermaid = await getHeadlessMermaid();
+  return withBrowserGlobals(headlessWindow!, async () => fn(mermaid));
+};
+
+/**
+ * Create the bundled headless renderer.
+ *
+ * Runs Mermaid inside a jsdom window. jsdom has no layout engine, so text
+ * dimensions are estimated from character counts and HTML labels are disabled;
+ * diagrams are laid out correctly but text may not fit as snugly as in a
+ * browser.
+ *
+ * Requires the optional `jsdom` and `mermaid` peer dependencies.
+ *
+ * @param config - User configuration for `mermaid.initialize()`; settings jsdom
+ *   can't support are overridden
+ * @returns A renderer backed by jsdom
+ */
+export const createHeadlessRenderer = async (
+  config?: MermaidConfig,
+): Promise<MermaidRenderer> => {
+  await runHeadlessMermaid((mermaid) => {
+    mermaid.initialize(
+      mergeMermaidConfig(
+        {
+          flowchart: { htmlLabels: false },
+          htmlLabels: false,
+          startOnLoad: false,
+        },
+        mergeMermaidConfig(config),
+      ),
+    );
+  });
+
+  return {
+    render: async (id, code) => {
+      const { svg } = await runHeadlessMermaid((mermaid) =>
+        mermaid.render(id, code),
+      );
+      return svg;
+    },
+  };
+};
+
+/**
+ * Load a custom renderer module.
+ *
+ * The module's default export must be a {@link MermaidRenderer} or a function
+ * returning one (optionally asynchronously).
+ *
+ * @param modulePath - Absolute path to the renderer module
+ * @returns The renderer
+ */
+export const loadMermaidRenderer = async (
+  modulePath: string,
+): Promise<MermaidRenderer> => {
+  const mod = (await import(pathToFileURL(modulePath).href)) as {
+    default?: unknown;
+  };
+  const renderer: unknown =
+    typeof mod.default === 'function'
+      ? await (mod.default as () => unknown)()
+      : mod.default;
+
+  if (
+    !renderer ||
+    typeof (renderer as Partial<MermaidRenderer>).render !== 'function'
+  ) {
+    throw new Error(
+      `Renderer module ${modulePath} must export a MermaidRenderer (or a function returning one) as its default export`,
+    );
+  }
+  return renderer as MermaidRenderer;
+};
@@ -0,0 +1,362 @@
+/**
+ * Links from diagram nodes to documented symbols.
+ *
+ * TypeDoc doesn't parse `{@link}` tags in code blocks, so Mermaid blocks keep
+ * them as written. Once every reflection is known, each is resolved the way
+ * TypeDoc resolves links in comments, relative to the reflection the diagram
+ * documents. A tag in a `click` statement becomes the statement's URL; one in a
+ * node's label becomes the label's text, and the node links to the target.
+ * Links to reflections are written as placeholders, and resolved for each page
+ * the diagram appears on.
+ *
+ * @packageDocumentation
+ */
+import {
+  type CommentDisplayPart,
+  type Converter,
+  type ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+  ReflectionSymbolId,
+} from 'typedoc';
+
+import { getDiagramKeyword } from './chunks.js';
+import { splitFrontMatter } from './figures.js';
+import { toReflectionPlaceholder } from './links.js';
+
+/**
+ * Resolves a link's target, as written in a diagram.
+ */
+export type MermaidLinkResolver = (
+  target: string,
+) => MermaidLinkTarget | undefined;
+
+/**
+ * What a link points to: a reflection, or the URL of an external page.
+ */
+export type MermaidLinkTarget = Reflection | string;
+
+/**
+ * Options for linking diagrams to symbols.
+ */
+export interface MermaidSymbolLinkOptions {
+  /**
+   * Whether to also link nodes whose ids are the names of exported symbols.
+   */
+  autoLink?: boolean;
+
+  /**
+   * Called with the target of each link which can't be resolved.
+   */
+  onUnresolved?: (target: string) => void;
+}
+
+/**
+ * A link in a diagram which could not be resolved.
+ */
+export interface UnresolvedMermaidLink {
+  /**
+   * The reflection whose documentation contains the diagram.
+   */
+  reflection: Reflection;
+
+  /**
+   * The link's target, as written.
+   */
+  target: string;
+}
+
+/**
+ * Matches a `{@link}`, `{@linkcode}` or `{@linkplain}` tag, capturing its
+ * target and its text, if it has any.
+ */
+const LINK = /\{@link(?:code|plain)?\s+([^\s|}]+)\s*\|?\s*([^}\n]*)\}/g;
+
+/**
+ * Matches a `click` statement whose URL is a link tag, capturing the statement
+ * up to the URL, the node id, the link's target and the rest of the statement.
+ */
+const CLICK_LINK =
+  /^([ \t]*click[ \t]+([^\s"]+)[ \t]+(?:href[ \t]+)?)"\{@link(?:code|plain)?\s+([^\s|}]+)[^}\n]*\}"(.*)$/;
+
+/**
+ * Matches any `click` statement, capturing the node id.
+ */
+const CLICK = /^[ \t]*click[ \t]+([^\s"]+)/;
+
+/**
+ * Matches the start of a node's label, up to the end of the text, capturing the
+ * node id.
+ */
+const LABEL_START =
+  /([A-Za-z0-9_$]+)(?:\[\[|\[\(|\(\(|\(\[|\{\{|[[({])[^\])}\n]*$/;
+
+/**
+ * Diagram types whose nodes can be linked by `click` statements.
+ */
+const CLICKABLE_TYPES = new Set([
+  'classDiagram',
+  'classDiagram-v2',
+  'flowchart',
+  'flowchart-elk',
+  'graph',
+]);
+
+/**
+ * Matches a statement which doesn't declare nodes.
+ */
+const NON_NODE_STATEMENT =
+  /^[ \t]*(?:accDescr|accTitle|classDef|click|direction|linkStyle|style|title)\b/;
+
+/**
+ * Words which are part of the diagram syntax rather than node ids.
+ */
+const KEYWORDS = new Set([
+  'BT',
+  'class',
+  'classDiagram',
+  'end',
+  'flowchart',
+  'graph',
+  'LR',
+  'namespace',
+  'note',
+  'RL',
+  'subgraph',
+  'TB',
+  'TD',
+]);
+
+/**
+ * Matches a fenced `mermaid` code block as stored in a `code` display part,
+ * capturing the opening fence, the code and the closing fence.
+ */
+const MERMAID_FENCE =
+  /^(\s*(`{3,}|~{3,})[ \t]*mermaid\b[^\n]*\n)([\s\S]*?)(\n?\2[ \t]*\s*)$/;
+
+/**
+ * Get the URL a `click` statement links to.
+ *
+ * @param target - The link's target
+ * @returns The URL, or a placeholder for a reflection's URL
+ */
+const toLinkUrl = (target: MermaidLinkTarget): string =>
+  typeof target === 'string' ? target : toReflectionPlaceholder(target);
+
+/**
+ * Find the words in a diagram which may be node ids: those outside labels,
+ * strings, comments, class members and statements styling or linking nodes.
+ *
+ * @param code - Plain Mermaid code
+ * @returns The words, each once
+ */
+const getNodeIds = (code: string): Set<string> => {
+  const ids = new Set<string>();
+  let inMembers = false;
+  for (const line of splitFrontMatter(code)[1].split('\n')) {
+    // Members of a class diagram's class are listed between braces
+    if (inMembers) {
+      inMembers = !line.includes('}');
+      continue;
+    }
+    if (NON_NODE_STATEMENT.test(line)) {
+      continue;
+    }
+    const stripped = line
+      .replace(/%%.*$/, '')
+      .replace(/"[^"]*"/g, ' ')
+      .replace(/<<[^>]*>>/g, ' ')
+      .replace(/:::[\w-]+/g, ' ')
+      .replace(/\|[^|]*\|/g, ' ')
+      .replace(/[[({][^\])}]*[\])}]/g, ' ')
+      .replace(/\s:.*$/, ' ');
+    if (/^[ \t]*class\b.*\{\s*$/.test(stripped)) {
+      inMembers = true;
+    }
+    for (const [word] of stripped.matchAll(/[A-Za-z_$][\w$]*/g)) {
+      if (!KEYWORDS.has(word)) {
+        ids.add(word);
+      }
+    }
+  }
+  return ids;
+};
+
+/**
+ * Resolve the link tags in a diagram.
+ *
+ * A tag in a `click` statement is replaced by its URL; if it can't be resolved,
+ * the statement is removed. A tag anywhere else is replaced by its text, or its
+ * target if it has none, and if it's in a node's label, a `click` statement
+ * linking the node is added, unless the diagram has its own. Diagram types
+ * without `click` statements only get the text.
+ *
+ * @param code - Plain Mermaid code
+ * @param resolve - Resolves a link's target
+ * @param options - Options for linking
+ * @returns The code with its links resolved
+ */
+export const linkDiagramSymbols = (
+  code: string,
+  resolve: MermaidLinkResolver,
+  { autoLink = false, onUnresolved }: MermaidSymbolLinkOptions = {},
+): string => {
+  const clickable = CLICKABLE_TYPES.has(getDiagramKeyword(code) ?? '');
+  // Node ids with their own click statement
+  const clicked = new Set<string>();
+  // Nodes to link, by id
+  const links = new Map<string, MermaidLinkTarget>();
+
+  const lines = code.split('\n').flatMap((line) => {
+    const click = CLICK_LINK.exec(line);
+    if (click) {
+      const [, start, id, target, rest] = click;
+      clicked.add(id!);
+      const resolved = resolve(target!);
+      if (!resolved) {
+        onUnresolved?.(target!);
+        return [];
+      }
+      return [`${start}"${toLinkUrl(resolved)}"${rest}`];
+    }
+    const existing = CLICK.exec(line);
+    if (existing) {
+      clicked.add(existing[1]!);
+    }
+
+    return [
+      line.replace(
+        LINK,
+        (_, target: string, text: string, offset: number, whole: string) => {
+          const resolved = resolve(target);
+          if (!resolved) {
+            onUnresolved?.(target);
+          } else if (clickable) {
+            const id = LABEL_START.exec(whole.slice(0, offset))?.[1];
+            if (id && !links.has(id)) {
+              links.set(id, resolved);
+            }
+          }
+          return text.trim() || target;
+        },
+      ),
+    ];
+  });
+
+  if (autoLink && clickable) {
+    for (const id of getNodeIds(code)) {
+      if (links.has(id)) {
+        continue;
+      }
+      const resolved = resolve(id);
+      if (
+        typeof resolved === 'object' &&
+        resolved.name === id &&
+        resolved.kindOf(ReflectionKind.SomeExport)
+      ) {
+        links.set(id, resolved);
+      }
+    }
+  }
+
+  for (const [id, target] of links) {
+    if (!clicked.has(id)) {
+      lines.push(`  click ${id} href "${toLinkUrl(target)}"`);
+    }
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Resolve the link tags in the Mermaid blocks of some display parts.
+ *
+ * @param parts - Display parts from a comment, readme or document
+ * @param resolve - Resolves a link's target
+ * @param options - Options for linking
+ * @returns The display parts, with links in Mermaid blocks resolved
+ */
+export const linkMermaidSymbols = (
+  parts: readonly CommentDisplayPart[],
+  resolve: MermaidLinkResolver,
+  options?: MermaidSymbolLinkOptions,
+): CommentDisplayPart[] =>
+  parts.map((part) => {
+    const match = part.kind === 'code' && MERMAID_FENCE.exec(part.text);
+    if (!match) {
+      return part;
+    }
+    const [, start, , code, end] = match;
+    const linked = linkDiagramSymbols(code!, resolve, options);
+    return linked === code
+      ? part
+      : { kind: 'code', text: start! + linked + end! };
+  });
+
+/**
+ * Resolve a link's target with TypeDoc's link resolution.
+ *
+ * @param converter - The converter, whose resolvers include any a plugin or
+ *   `externalSymbolLinkMappings` added
+ * @param target - The link's target, as written
+ * @param owner - The reflection whose documentation contains the link
+ * @returns The target reflection or URL, or `undefined` if it can't be resolved
+ */
+export const resolveMermaidLink = (
+  converter: Converter,
+  target: string,
+  owner: Reflection,
+): MermaidLinkTarget | undefined => {
+  const [part] = converter.resolveLinks(
+    [{ kind: 'inline-tag', tag: '@link', text: target }],
+    owner,
+  );
+  const resolved = part?.kind === 'inline-tag' ? part.target : undefined;
+  return resolved instanceof ReflectionSymbolId
+    ? owner.project.getReflectionFromSymbolId(resolved)
+    : resolved;
+};
+
+/**
+ * Resolve the link tags in every Mermaid block in a project.
+ *
+ * @param project - The converted project
+ * @param resolve - Resolves a link's target, relative to the reflection whose
+ *   documentation contains it
+ * @param autoLink - Whether to also link nodes whose ids are the names of
+ *   exported symbols
+ * @returns The links which could not be resolved
+ */
+export const linkAllMermaidSymbols = (
+  project: ProjectReflection,
+  resolve: (target: string, owner: Reflection) => MermaidLinkTarget | undefined,
+  autoLink = false,
+): UnresolvedMermaidLink[] => {
+  const unresolved: UnresolvedMermaidLink[] = [];
+
+  for (const reflection of [project, ...Object.values(project.reflections)]) {
+    const link = (parts: readonly CommentDisplayPart[]) =>
+      linkMermaidSymbols(parts, (target) => resolve(target, reflection), {
+        autoLink,
+        onUnresolved: (target) => unresolved.push({ reflection, target }),
+      });
+
+    const { comment } = reflection;
+    if (comment) {
+      comment.summary = link(comment.summary);
+      for (const tag of comment.blockTags) {
+        tag.content = link(tag.content);
+      }
+    }
+    if (reflection.isDocument()) {
+      reflection.content = link(reflection.content);
+    }
+    if (
+      (reflection.isProject() || reflection.isDeclaration()) &&
+      reflection.readme
+    ) {
+      reflection.readme = link(reflection.readme);
+    }
+  }
+
+  return unresolved;
+};
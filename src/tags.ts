@@ -0,0 +1,116 @@
+/**
+ * Support for the `@mermaid` block tag.
+ *
+ * @packageDocumentation
+ */
+import {
+  type CommentDisplayPart,
+  type CommentTag,
+  type ProjectReflection,
+} from 'typedoc';
+
+import { extractMermaidCode } from './collect.js';
+
+/**
+ * Block tag whose content is a Mermaid diagram.
+ */
+export const MERMAID_TAG = '@mermaid';
+
+/**
+ * Matches a title on the first line of a `@mermaid` tag, written like the
+ * `title` key of a diagram's front matter. No diagram starts this way, so it
+ * can't be mistaken for code.
+ */
+const TAG_TITLE = /^title:[ \t]*(.+)$/;
+
+/**
+ * The content of a `@mermaid` tag, split into its parts.
+ */
+export interface MermaidTagContent {
+  /**
+   * The diagram code.
+   */
+  code: string;
+
+  /**
+   * Title given on the first line of the tag, if any.
+   */
+  title?: string;
+}
+
+/**
+ * Get the text of a display part as written in the comment.
+ *
+ * TypeDoc has already parsed inline tags such as `{@link}` out of the tag's
+ * text, so they're written back, to be resolved with the rest of the diagram.
+ *
+ * @param part - A display part of the tag's content
+ * @returns The part's source text
+ */
+const toSourceText = (part: CommentDisplayPart): string =>
+  part.kind === 'inline-tag' ? `{${part.tag} ${part.text}}` : part.text;
+
+/**
+ * Split the text of a `@mermaid` tag into an optional title and the diagram.
+ *
+ * The first line is a title if it starts with `title:`, like the title in a
+ * diagram's front matter; otherwise it's the start of the diagram.
+ *
+ * @param text - The tag's text content
+ * @returns The title and diagram code
+ */
+export const parseMermaidTag = (text: string): MermaidTagContent => {
+  const trimmed = text.trim();
+  const newline = trimmed.indexOf('\n');
+  const firstLine = (
+    newline === -1 ? trimmed : trimmed.slice(0, newline)
+  ).trim();
+
+  const title = TAG_TITLE.exec(firstLine)?.[1];
+  if (newline === -1 || !title) {
+    return { code: trimmed };
+  }
+  return { code: trimmed.slice(newline + 1).trim(), title };
+};
+
+/**
+ * Rewrite the content of a `@mermaid` tag as a fenced `mermaid` block, so it
+ * renders like any other Mermaid code block. A title becomes the block's
+ * `title` option, and so its figure caption.
+ *
+ * Content which already contains a fenced `mermaid` block is left alone.
+ *
+ * @param tag - The `@mermaid` tag to rewrite
+ */
+export const convertMermaidTag = (tag: CommentTag): void => {
+  if (extractMermaidCode(tag.content).length) {
+    return;
+  }
+
+  const text = tag.content.map(toSourceText).join('');
+  const { code, title } = parseMermaidTag(text);
+  if (!code) {
+    return;
+  }
+
+  // Quote the title with whichever quote it doesn't contain
+  const info = title
+    ? ` title=${title.includes('"') ? `'${title}'` : `"${title}"`}`
+    : '';
+  tag.content = [
+    { kind: 'code', text: '```mermaid' + info + '\n' + code + '\n```' },
+  ];
+};
+
+/**
+ * Rewrite every `@mermaid` tag in a project as a fenced `mermaid` block.
+ *
+ * @param project - The converted project
+ */
+export const convertMermaidTags = (project: ProjectReflection): void => {
+  for (const reflection of [project, ...Object.values(project.reflections)]) {
+    for (const tag of reflection.comment?.getTags(MERMAID_TAG) ?? []) {
+      convertMermaidTag(tag);
+    }
+  }
+};
@@ -0,0 +1,143 @@
+/**
+ * Mermaid themes used for the light and dark diagram variants.
+ *
+ * @packageDocumentation
+ */
+import { splitFrontMatter } from './figures.js';
+
+/**
+ * The theme variants each diagram is rendered in.
+ */
+export type MermaidVariant = 'dark' | 'light';
+
+/**
+ * Names of Mermaid's built-in themes.
+ */
+export const MERMAID_THEME_NAMES = [
+  'base',
+  'dark',
+  'default',
+  'forest',
+  'neutral',
+] as const;
+
+/**
+ * The theme used for one variant.
+ */
+export interface MermaidTheme {
+  /**
+   * The built-in theme.
+   */
+  theme: MermaidThemeName;
+
+  /**
+   * Overrides for the theme's variables.
+   */
+  themeVariables?: MermaidThemeVariables;
+}
+
+/**
+ * A built-in Mermaid theme.
+ */
+export type MermaidThemeName = (typeof MERMAID_THEME_NAMES)[number];
+
+/**
+ * The theme used for each variant.
+ */
+export type MermaidThemes = Record<MermaidVariant, MermaidTheme>;
+
+/**
+ * Overrides for a theme's variables, e.g. `primaryColor`.
+ *
+ * @see {@link https://mermaid.js.org/config/theming.html}
+ */
+export type MermaidThemeVariables = Record<string, boolean | number | string>;
+
+/**
+ * Mermaid's own dark theme for dark mode, and its default theme otherwise.
+ */
+export const DEFAULT_MERMAID_THEMES: MermaidThemes = {
+  dark: { theme: 'dark' },
+  light: { theme: 'default' },
+};
+
+/**
+ * The TypeDoc CSS custom property each Mermaid theme variable is read from,
+ * when diagrams take their colors from the page.
+ *
+ * @see {@link https://mermaid.js.org/config/theming.html#theme-variables}
+ */
+export const MERMAID_CSS_THEME_VARIABLES: Readonly<Record<string, string>> = {
+  background: '--color-background',
+  clusterBorder: '--color-accent',
+  edgeLabelBackground: '--color-background',
+  lineColor: '--color-text-aside',
+  noteBkgColor: '--color-background-warning',
+  noteTextColor: '--color-warning-text',
+  primaryBorderColor: '--color-link',
+  primaryColor: '--color-background-secondary',
+  primaryTextColor: '--color-text',
+  secondaryColor: '--color-background-active',
+  tertiaryColor: '--color-background',
+  textColor: '--color-text',
+  titleColor: '--color-text',
+};
+
+/**
+ * Check that an option value is a valid set of theme variables.
+ *
+ * @param value - The option value
+ * @throws If the value is not an object whose values are strings, numbers or
+ *   booleans
+ */
+export const validateThemeVariables: (
+  value: unknown,
+) => asserts value is MermaidThemeVariables = (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] Theme variables must be an object',
+    );
+  }
+  for (const [name, variable] of Object.entries(value)) {
+    if (!['boolean', 'number', 'string'].includes(typeof variable)) {
+      throw new TypeError(
+        `[typedoc-plugin-mermaid] Theme variable "${name}" must be a string, number or boolean`,
+      );
+    }
+  }
+};
+
+/**
+ * Build the `%%{init}%%` directive which applies a theme to a diagram.
+ *
+ * @param theme - The theme
+ * @returns The directive, without a trailing newline
+ */
+export const getInitDirective = ({
+  theme,
+  themeVariables,
+}: MermaidTheme): string => {
+  const config =
+    themeVariables && Object.keys(themeVariables).length
+      ? { theme, themeVariables }
+      : { theme };
+  return `%%{init:${JSON.stringify(config)}}%%`;
+};
+
+/**
+ * Apply a theme to a diagram by adding its `%%{init}%%` directive.
+ *
+ * The directive goes after any front matter, which Mermaid only recognizes at
+ * the start of a diagram. Of several directives, the last wins.
+ *
+ * @param code - Plain Mermaid code
+ * @param theme - The theme
+ * @returns The code with the directive added
+ */
+export const applyMermaidTheme = (
+  code: string,
+  theme: MermaidTheme,
+): string => {
+  const [frontMatter, body] = splitFrontMatter(code);
+  return `${frontMatter}${getInitDirective(theme)}\n${body}`;
+};
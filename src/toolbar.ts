@@ -0,0 +1,206 @@
+/**
+ * The per-diagram toolbar for copying source and downloading images.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Actions the toolbar can offer.
+ *
+ * - `copy`: copy the diagram's Mermaid source to the clipboard
+ * - `png`: download the visible theme variant as a PNG image
+ * - `svg`: download the visible theme variant as an SVG image
+ */
+export const MERMAID_TOOLBAR_ACTIONS = ['copy', 'png', 'svg'] as const;
+
+/**
+ * An action the toolbar can offer.
+ */
+export type MermaidToolbarAction = (typeof MERMAID_TOOLBAR_ACTIONS)[number];
+
+/**
+ * Check that an option value is a list of toolbar actions.
+ *
+ * @param value - The option value
+ * @throws If the value contains anything but known actions
+ */
+export const validateToolbarActions: (
+  value: unknown,
+) => asserts value is MermaidToolbarAction[] = (value) => {
+  if (!Array.isArray(value)) {
+    throw new TypeError(
+      '[typedoc-plugin-mermaid] mermaidToolbar must be an array',
+    );
+  }
+  for (const action of value) {
+    if (!MERMAID_TOOLBAR_ACTIONS.includes(action as MermaidToolbarAction)) {
+      throw new TypeError(
+        `[typedoc-plugin-mermaid] Unknown mermaidToolbar action ${JSON.stringify(action)}; expected one of ${MERMAID_TOOLBAR_ACTIONS.join(', ')}`,
+      );
+    }
+  }
+};
+
+/**
+ * Client-side helpers shared by the toolbar and the viewer, which both put
+ * their buttons in the same toolbar.
+ */
+export const TOOLBAR_HELPERS = `
+// Find or create the toolbar of a diagram block
+function getToolbar(block) {
+  let toolbar = block.querySelector(":scope > .mermaid-toolbar");
+  if (!toolbar) {
+    toolbar = document.createElement("div");
+    toolbar.className = "mermaid-toolbar";
+    toolbar.setAttribute("role", "toolbar");
+    toolbar.setAttribute("aria-label", "Diagram");
+    block.prepend(toolbar);
+  }
+  return toolbar;
+}
+
+function addToolbarButton(block, text, label, action) {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.textContent = text;
+  button.title = label;
+  button.setAttribute("aria-label", label);
+  button.addEventListener("click", () => action(button));
+  getToolbar(block).append(button);
+  return button;
+}
+`;
+
+/**
+ * Styles for the toolbar, which are also used by the viewer.
+ */
+export const TOOLBAR_STYLE = `
+<style>
+/* Diagram toolbar */
+.mermaid-block {
+  position: relative;
+}
+
+.mermaid-toolbar {
+  position: absolute;
+  top: 0.25em;
+  right: 0.25em;
+  z-index: 1;
+  display: flex;
+  gap: 0.25em;
+}
+
+.mermaid-block:not(:hover, :focus-within) > .mermaid-toolbar {
+  opacity: 0;
+}
+
+.mermaid-toolbar button,
+.mermaid-show {
+  cursor: pointer;
+  min-width: 2em;
+  color: var(--color-text, inherit);
+  background: var(--color-background-secondary, transparent);
+  border: 1px solid var(--color-accent, currentColor);
+  border-radius: 0.25em;
+}
+</style>
+`;
+
+/**
+ * Generate the toolbar script.
+ *
+ * PNG images are drawn from the SVG on a canvas, over the page's background
+ * color. Browsers may refuse to export diagrams with HTML labels this way;
+ * setting `htmlLabels: false` in `mermaidConfig` avoids that.
+ *
+ * @param actions - The actions to offer, in order
+ * @returns The script HTML to inject
+ */
+export const getToolbarScript = (
+  actions: readonly MermaidToolbarAction[],
+): string => `
+<script type="module">
+const ACTIONS = ${JSON.stringify(actions)};
+${TOOLBAR_HELPERS}
+// Show the outcome of an action on its button for a moment
+function flash(button, text) {
+  const original = button.textContent;
+  button.textContent = text;
+  setTimeout(() => {
+    button.textContent = original;
+  }, 2000);
+}
+
+function getSource(block) {
+  const template = block.querySelector(":scope > template.mermaid-source");
+  if (template) return template.content.textContent;
+  return block.querySelector(":scope > pre > code")?.textContent ?? "";
+}
+
+// The SVG of whichever theme variant is showing
+function getVisibleSvg(block) {
+  const svg = [...block.querySelectorAll(":scope > .mermaid > svg, :scope > .mermaid-svg > svg")]
+    .find((el) => el.getClientRects().length);
+  if (!svg) return undefined;
+  const clone = svg.cloneNode(true);
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  let { width, height } = svg.viewBox.baseVal ?? {};
+  if (!width || !height) ({ width, height } = svg.getBoundingClientRect());
+  return { height, markup: new XMLSerializer().serializeToString(clone), width };
+}
+
+function download(block, blob, extension) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = (block.id || "diagram") + "." + extension;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
+async function toPng({ height, markup, width }) {
+  const image = new Image();
+  image.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(markup);
+  await image.decode();
+  const scale = 2;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const context = canvas.getContext("2d");
+  context.fillStyle = getComputedStyle(document.body).backgroundColor;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Empty image"))), "image/png");
+  });
+}
+
+const handlers = {
+  copy: ["Copy", "Copy source", async (block, button) => {
+    await navigator.clipboard.writeText(getSource(block));
+    flash(button, "Copied!");
+  }],
+  png: ["PNG", "Download PNG", async (block) => {
+    const svg = getVisibleSvg(block);
+    if (svg) download(block, await toPng(svg), "png");
+  }],
+  svg: ["SVG", "Download SVG", (block) => {
+    const svg = getVisibleSvg(block);
+    if (svg) download(block, new Blob([svg.markup], { type: "image/svg+xml" }), "svg");
+  }],
+};
+
+document.querySelectorAll(".mermaid-block").forEach((block) => {
+  for (const name of ACTIONS) {
+    const [text, label, handler] = handlers[name];
+    addToolbarButton(block, text, label, async (button) => {
+      try {
+        await handler(block, button);
+      } catch (err) {
+        console.error("[typedoc-plugin-mermaid]", err);
+        flash(button, "Failed");
+      }
+    });
+  }
+});
+</script>
+`;
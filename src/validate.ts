@@ -0,0 +1,116 @@
+/**
+ * Build-time validation of Mermaid diagram syntax.
+ *
+ * @packageDocumentation
+ */
+import { type Reflection, type Router } from 'typedoc';
+
+import { type CollectedDiagram } from './collect.js';
+
+/**
+ * A diagram which Mermaid failed to parse.
+ */
+export interface InvalidDiagram {
+  /**
+   * The offending diagram.
+   */
+  diagram: CollectedDiagram;
+
+  /**
+   * The Mermaid parser's error message.
+   */
+  message: string;
+}
+
+/**
+ * How invalid diagrams are reported.
+ */
+export type MermaidValidation = 'error' | 'off' | 'warn';
+
+/**
+ * Parse every diagram, collecting those with syntax errors.
+ *
+ * @param diagrams - The diagrams to validate
+ * @param parse - Mermaid's `parse` function (rejects on invalid syntax)
+ * @returns The invalid diagrams, in order
+ */
+export const validateMermaidDiagrams = async (
+  diagrams: readonly CollectedDiagram[],
+  parse: (code: string) => Promise<unknown>,
+): Promise<InvalidDiagram[]> => {
+  const invalid: InvalidDiagram[] = [];
+  for (const diagram of diagrams) {
+    try {
+      await parse(diagram.code);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      invalid.push({ diagram, message });
+    }
+  }
+  return invalid;
+};
+
+/**
+ * Find where a reflection's documentation comes from.
+ *
+ * TypeDoc doesn't keep the position of a doc comment, so a declaration is
+ * located by the line it's declared on, which follows its comment. Readmes and
+ * documents are located by their file.
+ *
+ * @param reflection - The reflection
+ * @returns The location, or `undefined` if unknown
+ */
+const getSourceLocation = (reflection: Reflection): string | undefined => {
+  if (reflection.isDeclaration() || reflection.isSignature()) {
+    const source = reflection.sources?.[0];
+    if (source) {
+      return `declared at ${source.fileName}:${source.line}`;
+    }
+  }
+  const sourcePath = reflection.comment?.sourcePath;
+  return sourcePath ? `in ${sourcePath}` : undefined;
+};
+
+/**
+ * Describe where a diagram is documented, for the TypeDoc log.
+ *
+ * Names the reflection, its source location and the page it renders on (if a
+ * router is available).
+ *
+ * @param reflection - The reflection whose documentation contains the diagram
+ * @param router - The renderer's router, used to resolve the page URL
+ * @returns The description
+ */
+export const formatDiagramLocation = (
+  reflection: Reflection,
+  router?: Router,
+): string => {
+  const name = reflection.isProject()
+    ? reflection.name
+    : reflection.getFriendlyFullName();
+  const location = getSourceLocation(reflection);
+
+  // Signatures and parameters are documented on their parent's page
+  let target: Reflection | undefined = reflection;
+  while (target && router && !router.hasUrl(target)) {
+    target = target.parent;
+  }
+  const url = target && router ? router.getFullUrl(target) : undefined;
+
+  return (
+    name + (location ? ` (${location})` : '') + (url ? ` on page ${url}` : '')
+  );
+};
+
+/**
+ * Describe an invalid diagram for the TypeDoc log.
+ *
+ * @param invalid - The invalid diagram
+ * @param router - The renderer's router, used to resolve the page URL
+ * @returns The log message
+ */
+export const formatInvalidDiagram = (
+  { diagram: { reflection }, message }: InvalidDiagram,
+  router?: Router,
+): string =>
+  `[typedoc-plugin-mermaid] Invalid Mermaid diagram in ${formatDiagramLocation(reflection, router)}: ${message}`;
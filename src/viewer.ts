@@ -0,0 +1,306 @@
+/**
+ * The opt-in pan/zoom and fullscreen viewer for diagrams.
+ *
+ * The viewer is plain inline JavaScript, so it works without a network
+ * connection whichever way Mermaid itself is loaded, and for pre-rendered
+ * diagrams which don't load Mermaid at all.
+ *
+ * @packageDocumentation
+ */
+import { TOOLBAR_HELPERS } from './toolbar.js';
+
+/**
+ * Options for the diagram viewer.
+ */
+export interface MermaidViewerOptions {
+  /**
+   * Collapse diagrams taller than this many pixels behind a "Show diagram"
+   * button; `0` disables collapsing.
+   */
+  collapseHeight: number;
+
+  /**
+   * Whether to add pan/zoom and fullscreen controls to each diagram.
+   */
+  controls: boolean;
+}
+
+/**
+ * Check whether the viewer has anything to do.
+ *
+ * @param options - Viewer options
+ * @returns `true` if the viewer's style and script are needed
+ */
+export const isViewerEnabled = (options?: MermaidViewerOptions): boolean =>
+  !!options && (options.controls || options.collapseHeight > 0);
+
+/**
+ * Styles for panning, fullscreen mode and collapsed diagrams. The controls are
+ * styled along with the rest of the toolbar.
+ */
+export const VIEWER_STYLE = `
+<style>
+/* Pan/zoom viewer */
+.mermaid-viewer {
+  overflow: hidden;
+  cursor: grab;
+  touch-action: pan-y;
+}
+
+.mermaid-viewer.mermaid-panning {
+  cursor: grabbing;
+}
+
+.mermaid-viewer svg {
+  transform-origin: 0 0;
+  transform: var(--mermaid-transform, none);
+}
+
+/* Fullscreen diagrams cover the page */
+.mermaid-block.mermaid-fullscreen {
+  position: fixed;
+  inset: 0;
+  z-index: 1000;
+  max-width: none;
+  margin: 0;
+  padding: 2.5em 1em 1em;
+  background: var(--color-background, #fff);
+  touch-action: none;
+}
+
+.mermaid-block.mermaid-fullscreen svg {
+  max-height: calc(100vh - 4em);
+}
+
+:root.mermaid-fullscreen-open {
+  overflow: hidden;
+}
+
+/* Tall diagrams wait behind a "Show diagram" button */
+.mermaid-tall > :not(figcaption, .mermaid-show) {
+  display: none !important;
+}
+</style>
+`;
+
+/**
+ * Generate the viewer script.
+ *
+ * @param options - Viewer options
+ * @returns The script HTML to inject
+ */
+export const getViewerScript = ({
+  collapseHeight,
+  controls,
+}: MermaidViewerOptions): string => `
+<script type="module">
+const COLLAPSE_HEIGHT = ${collapseHeight};
+const CONTROLS = ${controls};
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 8;
+const STEP = 1.25;
+// Blocks already checked for collapsing
+const measured = new WeakSet();
+${TOOLBAR_HELPERS}
+function setupViewer(block) {
+  const state = { scale: 1, x: 0, y: 0 };
+  const pointers = new Map();
+  let pinch = 0;
+  let dragged = false;
+  let opener;
+
+  const visible = () =>
+    [...block.querySelectorAll(":scope > .mermaid > svg, :scope > .mermaid-svg > svg")]
+      .find((svg) => svg.getClientRects().length);
+
+  // Transform through a custom property, so it carries over to diagrams
+  // rendered again when the theme changes
+  function apply() {
+    block.style.setProperty(
+      "--mermaid-transform",
+      "translate(" + state.x + "px, " + state.y + "px) scale(" + state.scale + ")",
+    );
+  }
+
+  // Zoom by a factor, keeping the given point of the diagram still
+  function zoomAt(factor, clientX, clientY) {
+    const svg = visible();
+    if (!svg) return;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, state.scale * factor));
+    const rect = svg.getBoundingClientRect();
+    const px = clientX - (rect.left - state.x);
+    const py = clientY - (rect.top - state.y);
+    state.x = px - (px - state.x) * (scale / state.scale);
+    state.y = py - (py - state.y) * (scale / state.scale);
+    state.scale = scale;
+    apply();
+  }
+
+  function zoomCenter(factor) {
+    const rect = (visible() ?? block).getBoundingClientRect();
+    zoomAt(factor, rect.left + rect.width / 2, rect.top + rect.height / 2);
+  }
+
+  function reset() {
+    state.scale = 1;
+    state.x = 0;
+    state.y = 0;
+    apply();
+  }
+
+  function toggleFullscreen() {
+    const open = block.classList.toggle("mermaid-fullscreen");
+    document.documentElement.classList.toggle("mermaid-fullscreen-open", open);
+    if (open) {
+      opener = document.activeElement;
+      block.setAttribute("role", "dialog");
+      block.setAttribute("aria-modal", "true");
+      block.focus();
+    } else {
+      block.removeAttribute("role");
+      block.removeAttribute("aria-modal");
+      reset();
+      opener?.focus();
+    }
+  }
+
+  block.classList.add("mermaid-viewer");
+  block.tabIndex = 0;
+
+  addToolbarButton(block, "+", "Zoom in", () => zoomCenter(STEP));
+  addToolbarButton(block, "−", "Zoom out", () => zoomCenter(1 / STEP));
+  addToolbarButton(block, "⟲", "Reset zoom", reset);
+  addToolbarButton(block, "⛶", "Toggle fullscreen", toggleFullscreen);
+
+  block.addEventListener("keydown", (event) => {
+    if (event.target !== block && event.key !== "Escape") return;
+    switch (event.key) {
+      case "+":
+      case "=":
+        zoomCenter(STEP);
+        break;
+      case "-":
+      case "_":
+        zoomCenter(1 / STEP);
+        break;
+      case "0":
+        reset();
+        break;
+      case "f":
+        toggleFullscreen();
+        break;
+      case "Escape":
+        if (!block.classList.contains("mermaid-fullscreen")) return;
+        toggleFullscreen();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  });
+
+  // Inline diagrams only take over the wheel with Ctrl/Cmd (or a trackpad
+  // pinch), so the page still scrolls past them
+  block.addEventListener(
+    "wheel",
+    (event) => {
+      const fullscreen = block.classList.contains("mermaid-fullscreen");
+      if (!fullscreen && !event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      zoomAt(Math.exp(-event.deltaY / 300), event.clientX, event.clientY);
+    },
+    { passive: false },
+  );
+
+  block.addEventListener("pointerdown", (event) => {
+    if (event.target.closest("button")) return;
+    pointers.set(event.pointerId, event);
+    dragged = false;
+  });
+
+  block.addEventListener("pointermove", (event) => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    // Capture the pointer only once it moves, so clicks still reach links
+    if (!dragged) {
+      if (Math.hypot(event.clientX - previous.clientX, event.clientY - previous.clientY) < 3) return;
+      dragged = true;
+      block.classList.add("mermaid-panning");
+    }
+    if (!block.hasPointerCapture(event.pointerId)) {
+      block.setPointerCapture(event.pointerId);
+    }
+    pointers.set(event.pointerId, event);
+    if (pointers.size === 2) {
+      // Pinch to zoom around the midpoint of both pointers
+      const [a, b] = [...pointers.values()];
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+      if (pinch) {
+        zoomAt(distance / pinch, (a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2);
+      }
+      pinch = distance;
+    } else if (pointers.size === 1) {
+      state.x += event.clientX - previous.clientX;
+      state.y += event.clientY - previous.clientY;
+      apply();
+    }
+  });
+
+  const release = (event) => {
+    pointers.delete(event.pointerId);
+    pinch = 0;
+    if (!pointers.size) block.classList.remove("mermaid-panning");
+  };
+  block.addEventListener("pointerup", release);
+  block.addEventListener("pointercancel", release);
+
+  // Don't follow a diagram link at the end of a drag
+  block.addEventListener(
+    "click",
+    (event) => {
+      if (dragged) {
+        event.preventDefault();
+        event.stopPropagation();
+        dragged = false;
+      }
+    },
+    true,
+  );
+}
+
+function collapseTall(block) {
+  if (measured.has(block)) return;
+  measured.add(block);
+  if (block.getBoundingClientRect().height <= COLLAPSE_HEIGHT) return;
+  block.classList.add("mermaid-tall");
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "mermaid-show";
+  button.textContent = "Show diagram";
+  button.addEventListener("click", () => {
+    block.classList.remove("mermaid-tall");
+    button.remove();
+  });
+  const caption = block.querySelector(":scope > figcaption");
+  if (caption) {
+    caption.after(button);
+  } else {
+    block.prepend(button);
+  }
+}
+
+document.querySelectorAll(".mermaid-block").forEach((block) => {
+  if (CONTROLS) setupViewer(block);
+  // Client-side diagrams can only be measured once rendered
+  if (COLLAPSE_HEIGHT > 0 && block.querySelector(":scope > .mermaid-svg, :scope > .mermaid > svg")) {
+    collapseTall(block);
+  }
+});
+
+if (COLLAPSE_HEIGHT > 0) {
+  document.addEventListener("mermaid:rendered", (event) => {
+    collapseTall(event.target.parentElement);
+  });
+}
+</script>
+`;
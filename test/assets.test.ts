@@ -0,0 +1,93 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+
+import {
+  getAssetDirUrl,
+  normalizeAssetDir,
+  validateAssetBaseUrl,
+  validateAssetDir,
+} from '../src/assets.js';
+
+describe('normalizeAssetDir', () => {
+  it('should remove redundant segments and trailing slashes', () => {
+    expect(
+      normalizeAssetDir('./static//mermaid/'),
+      'to equal',
+      'static/mermaid',
+    );
+    expect(normalizeAssetDir('static\\mermaid'), 'to equal', 'static/mermaid');
+  });
+});
+
+describe('validateAssetDir', () => {
+  it('should accept a subdirectory of the output directory', () => {
+    validateAssetDir('assets/mermaid');
+    validateAssetDir('static/../vendor/mermaid/');
+  });
+
+  for (const value of [
+    '/var/www/mermaid',
+    'C:\\mermaid',
+    '.',
+    '',
+    '../mermaid',
+  ]) {
+    it(`should reject ${JSON.stringify(value)}`, () => {
+      let validationError: Error | undefined;
+      try {
+        validateAssetDir(value);
+      } catch (err) {
+        validationError = err as Error;
+      }
+
+      expect(validationError, 'to be a', TypeError);
+      expect(validationError?.message, 'to contain', 'mermaidAssetDir');
+    });
+  }
+});
+
+describe('validateAssetBaseUrl', () => {
+  it('should accept absolute and root-relative URLs, or nothing', () => {
+    validateAssetBaseUrl('');
+    validateAssetBaseUrl('https://static.example.com/mermaid/');
+    validateAssetBaseUrl('/docs/static/mermaid');
+  });
+
+  it('should reject a URL relative to the page', () => {
+    let validationError: Error | undefined;
+    try {
+      validateAssetBaseUrl('static/mermaid/');
+    } catch (err) {
+      validationError = err as Error;
+    }
+
+    expect(validationError, 'to be a', TypeError);
+    expect(validationError?.message, 'to contain', 'mermaidAssetBaseUrl');
+  });
+});
+
+describe('getAssetDirUrl', () => {
+  it('should return a path relative to the page', () => {
+    expect(
+      getAssetDirUrl('index.html', { assetDir: 'static/mermaid/' }),
+      'to equal',
+      './static/mermaid/',
+    );
+    expect(
+      getAssetDirUrl('modules/foo/Bar.html', { assetDir: 'static/mermaid' }),
+      'to equal',
+      '../../static/mermaid/',
+    );
+  });
+
+  it('should return the base URL for every page', () => {
+    const location = { assetDir: 'static/mermaid', baseUrl: '/static/mm' };
+
+    expect(getAssetDirUrl('index.html', location), 'to equal', '/static/mm/');
+    expect(
+      getAssetDirUrl('classes/Foo.html', location),
+      'to equal',
+      '/static/mm/',
+    );
+  });
+});
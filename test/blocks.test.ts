@@ -0,0 +1,123 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+
+import {
+  addMermaidFenceInfo,
+  getBlockDiagramCode,
+  type MarkdownItParser,
+  parseMermaidBlockInfo,
+} from '../src/blocks.js';
+
+/**
+ * Helper to create a parser whose fence rule renders like TypeDoc's.
+ */
+const createParser = (): MarkdownItParser => ({
+  renderer: {
+    rules: {
+      fence: (tokens, idx) =>
+        `<pre><code class="${tokens[idx]!.info.split(/\s/)[0]}">graph TD</code><button type="button">Copy</button></pre>\n`,
+    },
+  },
+  utils: {
+    escapeHtml: (str) => str.replace(/&/g, '&amp;').replace(/"/g, '&quot;'),
+  },
+});
+
+describe('parseMermaidBlockInfo', () => {
+  it('should parse quoted, bare and flag options', () => {
+    const { options, problems } = parseMermaidBlockInfo(
+      'title="Order lifecycle" theme=neutral height=400 width=50% align=right id=orders collapsed',
+    );
+
+    expect(options, 'to equal', {
+      align: 'right',
+      collapsed: true,
+      height: '400px',
+      id: 'orders',
+      theme: 'neutral',
+      title: 'Order lifecycle',
+      width: '50%',
+    });
+    expect(problems, 'to equal', []);
+  });
+
+  it('should support single-quoted values', () => {
+    const { options } = parseMermaidBlockInfo('title=\'Say "hi"\'');
+
+    expect(options, 'to equal', { title: 'Say "hi"' });
+  });
+
+  it('should warn about unknown keys', () => {
+    const { options, problems } = parseMermaidBlockInfo('zoom=2 theme=dark');
+
+    expect(options, 'to equal', { theme: 'dark' });
+    expect(problems, 'to equal', [
+      '[typedoc-plugin-mermaid] Unknown Mermaid block option "zoom"',
+    ]);
+  });
+
+  it('should warn about invalid values and ignore them', () => {
+    const { options, problems } = parseMermaidBlockInfo(
+      'theme=sparkly height=tall id="not an id" align',
+    );
+
+    expect(options, 'to equal', {});
+    expect(problems, 'to have length', 4);
+    expect(
+      problems[0],
+      'to equal',
+      '[typedoc-plugin-mermaid] Invalid value "sparkly" for Mermaid block option "theme"',
+    );
+  });
+});
+
+describe('getBlockDiagramCode', () => {
+  it('should prefix a theme override directive', () => {
+    expect(
+      getBlockDiagramCode('graph TD', { theme: 'forest' }),
+      'to equal',
+      '%%{init:{"theme":"forest"}}%%\ngraph TD',
+    );
+  });
+
+  it('should leave code without a theme override alone', () => {
+    expect(
+      getBlockDiagramCode('graph TD', { title: 'Flow' }),
+      'to equal',
+      'graph TD',
+    );
+  });
+});
+
+describe('addMermaidFenceInfo', () => {
+  it('should keep the options in a data attribute', () => {
+    const parser = createParser();
+    addMermaidFenceInfo(parser);
+
+    expect(
+      parser.renderer.rules['fence']!(
+        [{ info: 'mermaid title="A & B" collapsed' }],
+        0,
+      ),
+      'to start with',
+      '<pre><code class="mermaid" data-mermaid-info="title=&quot;A &amp; B&quot; collapsed">',
+    );
+  });
+
+  it('should leave other fences and plain mermaid fences alone', () => {
+    const parser = createParser();
+    addMermaidFenceInfo(parser);
+    const fence = parser.renderer.rules['fence']!;
+
+    expect(
+      fence([{ info: 'ts title="x"' }], 0),
+      'to start with',
+      '<pre><code class="ts">',
+    );
+    expect(
+      fence([{ info: 'mermaid' }], 0),
+      'to start with',
+      '<pre><code class="mermaid">',
+    );
+  });
+});
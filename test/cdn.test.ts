@@ -0,0 +1,98 @@
+import { expect } from 'bupkis';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+import {
+  DEFAULT_CDN_TEMPLATE,
+  formatCdnUrl,
+  getCdnUrlVersion,
+  getSubresourceIntegrity,
+  isSupportedMermaidVersion,
+  validateCdnTemplate,
+} from '../src/cdn.js';
+
+describe('formatCdnUrl', () => {
+  it('should put the version in the default template', () => {
+    expect(
+      formatCdnUrl(DEFAULT_CDN_TEMPLATE, '11.4.0'),
+      'to equal',
+      'https://unpkg.com/mermaid@11.4.0/dist/mermaid.esm.min.mjs',
+    );
+  });
+
+  it('should replace every placeholder', () => {
+    expect(
+      formatCdnUrl(
+        'https://cdn.example.com/{version}/mermaid@{version}/',
+        '11.4.0',
+      ),
+      'to equal',
+      'https://cdn.example.com/11.4.0/mermaid@11.4.0/',
+    );
+  });
+});
+
+describe('validateCdnTemplate', () => {
+  it('should reject a template without a version placeholder', () => {
+    let validationError: Error | undefined;
+    try {
+      validateCdnTemplate('https://unpkg.com/mermaid/dist/mermaid.esm.min.mjs');
+    } catch (err) {
+      validationError = err as Error;
+    }
+
+    expect(validationError?.message, 'to contain', '{version}');
+  });
+});
+
+describe('getCdnUrlVersion', () => {
+  it('should find the version after mermaid@', () => {
+    expect(
+      getCdnUrlVersion(
+        'https://cdn.jsdelivr.net/npm/mermaid@10.9.1/dist/mermaid.esm.min.mjs',
+      ),
+      'to equal',
+      '10.9.1',
+    );
+  });
+
+  it('should return undefined for URLs without a version', () => {
+    expect(
+      getCdnUrlVersion('https://example.com/mermaid.esm.min.mjs'),
+      'to be undefined',
+    );
+  });
+});
+
+describe('isSupportedMermaidVersion', () => {
+  it('should accept versions and ranges from 11 on', () => {
+    expect(isSupportedMermaidVersion('11'), 'to be true');
+    expect(isSupportedMermaidVersion('^11.4.0'), 'to be true');
+    expect(isSupportedMermaidVersion('12.0.0'), 'to be true');
+  });
+
+  it('should reject older versions', () => {
+    expect(isSupportedMermaidVersion('10.9.1'), 'to be false');
+    expect(isSupportedMermaidVersion('~9'), 'to be false');
+  });
+
+  it('should accept tags it cannot check', () => {
+    expect(isSupportedMermaidVersion('latest'), 'to be true');
+  });
+});
+
+describe('getSubresourceIntegrity', () => {
+  it('should hash the file with SHA-384', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mermaid-cdn-'));
+    const file = join(dir, 'mermaid.esm.min.mjs');
+    writeFileSync(file, 'alert(1)');
+
+    expect(
+      await getSubresourceIntegrity(file),
+      'to equal',
+      'sha384-HT2E9NfWiuQ/w1PRai+hTyqW16NIoCGA/m8VQDUopfAtcz6YQjtsMmQd5uRbVDpW',
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import { expect } from 'bupkis';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  copyMermaidChunks,
+  findDiagramLoaders,
+  getDiagramKeyword,
+  selectMermaidChunks,
+} from '../src/chunks.js';
+import { resolveMermaidDistPath } from '../src/index.js';
+
+/**
+ * A cut-down entry point in the shape of Mermaid's minified build.
+ */
+const ENTRY = [
+  'import{a as x}from"./chunks/mermaid.esm.min/chunk-CORE.mjs";',
+  'import"./chunks/mermaid.esm.min/chunk-STYLE.mjs";',
+  'var d=t=>/^\\s*sequenceDiagram/.test(t),l=async()=>{let{diagram:e}=await import("./chunks/mermaid.esm.min/sequenceDiagram-X.mjs");return{id:"sequence",diagram:e}};',
+  'var f=(t,e)=>e?.flowchart?.defaultRenderer==="elk"?!1:/^\\s*graph/.test(t)||/^\\s*flowchart/.test(t),g=async()=>{let{diagram:e}=await import("./chunks/mermaid.esm.min/flowDiagram-Y.mjs");return{id:"flowchart",diagram:e}};',
+  'var h=(t,e={})=>e?.layout==="swirl"||/^\\s*graph\\s+swirl/.test(t),k=async()=>{let{diagram:e}=await import("./chunks/mermaid.esm.min/swirlDiagram-Z.mjs");return{id:"swirl",diagram:e}};',
+].join('');
+
+/**
+ * Chunk files, keyed by name, with their imports.
+ */
+const CHUNKS: Record<string, string> = {
+  'chunk-CORE.mjs': 'export const a=1;',
+  'chunk-LAYOUT.mjs': 'export const l=1;',
+  'chunk-SHARED.mjs': 'import("./chunk-LAYOUT.mjs");export const s=1;',
+  'chunk-STYLE.mjs': 'export{};',
+  'flowDiagram-Y.mjs': 'import{s}from"./chunk-SHARED.mjs";',
+  'sequenceDiagram-X.mjs': 'import"./chunk-CORE.mjs";',
+  'swirlDiagram-Z.mjs': 'export{};',
+};
+
+describe('getDiagramKeyword', () => {
+  it('should return the first word of the diagram', () => {
+    expect(getDiagramKeyword('graph TD\n  A --> B'), 'to equal', 'graph');
+    expect(
+      getDiagramKeyword('  sequenceDiagram\n  A->>B: hi'),
+      'to equal',
+      'sequenceDiagram',
+    );
+  });
+
+  it('should skip front matter, directives and comments', () => {
+    expect(
+      getDiagramKeyword(
+        '---\ntitle: Flow\n---\n%%{init: {"theme": "dark"}}%%\n%% a comment\nflowchart LR\n  A --> B',
+      ),
+      'to equal',
+      'flowchart',
+    );
+  });
+
+  it('should return undefined for an empty diagram', () => {
+    expect(getDiagramKeyword('%% nothing here\n'), 'to be undefined');
+  });
+});
+
+describe('findDiagramLoaders', () => {
+  it('should pair each loader with the detectors before it', () => {
+    const loaders = findDiagramLoaders(ENTRY);
+
+    expect(
+      loaders.map(({ chunk }) => chunk),
+      'to equal',
+      ['sequenceDiagram-X.mjs', 'flowDiagram-Y.mjs', 'swirlDiagram-Z.mjs'],
+    );
+    expect(
+      loaders.map(({ detectors }) => detectors.map(String)),
+      'to equal',
+      [
+        ['/^\\s*sequenceDiagram/'],
+        ['/^\\s*graph/', '/^\\s*flowchart/'],
+        ['/^\\s*graph\\s+swirl/'],
+      ],
+    );
+  });
+
+  it('should note which detectors read the configuration', () => {
+    expect(
+      findDiagramLoaders(ENTRY).map(({ readsConfig }) => readsConfig),
+      'to equal',
+      [false, true, true],
+    );
+  });
+});
+
+describe('selectMermaidChunks', () => {
+  let dir: string;
+  let chunksDir: string;
+  let entryPath: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mermaid-chunks-'));
+    chunksDir = join(dir, 'chunks', 'mermaid.esm.min');
+    entryPath = join(dir, 'mermaid.esm.min.mjs');
+    await mkdir(chunksDir, { recursive: true });
+    await writeFile(entryPath, ENTRY);
+    for (const [name, source] of Object.entries(CHUNKS)) {
+      await writeFile(join(chunksDir, name), source);
+      await writeFile(join(chunksDir, `${name}.map`), '{}');
+    }
+  });
+
+  after(async () => {
+    await rm(dir, { force: true, recursive: true });
+  });
+
+  it('should select the static imports and the used types with their imports', async () => {
+    const selection = await selectMermaidChunks(entryPath, chunksDir, [
+      'graph TD\n  A --> B',
+    ]);
+
+    expect(selection.ok, 'to be true');
+    expect(selection.ok && [...selection.chunks].sort(), 'to equal', [
+      'chunk-CORE.mjs',
+      'chunk-LAYOUT.mjs',
+      'chunk-SHARED.mjs',
+      'chunk-STYLE.mjs',
+      'flowDiagram-Y.mjs',
+    ]);
+  });
+
+  it('should test the detectors against the whole diagram', async () => {
+    const selection = await selectMermaidChunks(entryPath, chunksDir, [
+      '%% a comment\ngraph swirl\n  A --> B',
+    ]);
+
+    expect(
+      selection.ok && selection.chunks.has('swirlDiagram-Z.mjs'),
+      'to be true',
+    );
+  });
+
+  it('should select loaders which read the configuration for a configured diagram', async () => {
+    const plain = await selectMermaidChunks(entryPath, chunksDir, [
+      'sequenceDiagram\n  A->>B: hi',
+    ]);
+    const configured = await selectMermaidChunks(entryPath, chunksDir, [
+      '---\nconfig:\n  layout: swirl\n---\nsequenceDiagram\n  A->>B: hi',
+    ]);
+
+    expect(plain.ok && plain.chunks.has('swirlDiagram-Z.mjs'), 'to be false');
+    expect(
+      configured.ok && configured.chunks.has('swirlDiagram-Z.mjs'),
+      'to be true',
+    );
+  });
+
+  it('should select loaders which read the configuration for a directive or site configuration', async () => {
+    const selection = await selectMermaidChunks(
+      entryPath,
+      chunksDir,
+      ['%%{init: {"layout": "swirl"}}%%\nsequenceDiagram'],
+      false,
+    );
+    const site = await selectMermaidChunks(
+      entryPath,
+      chunksDir,
+      ['sequenceDiagram'],
+      true,
+    );
+
+    expect(
+      selection.ok && selection.chunks.has('swirlDiagram-Z.mjs'),
+      'to be true',
+    );
+    expect(site.ok && site.chunks.has('swirlDiagram-Z.mjs'), 'to be true');
+  });
+
+  it('should report the keyword of a diagram no loader detects', async () => {
+    const selection = await selectMermaidChunks(entryPath, chunksDir, [
+      'graph TD',
+      'fancyDiagram\n  A',
+    ]);
+
+    expect(selection, 'to equal', { keyword: 'fancyDiagram', ok: false });
+  });
+
+  it('should copy the selected chunks and their source maps', async () => {
+    const destDir = join(dir, 'out');
+    const selection = await selectMermaidChunks(entryPath, chunksDir, [
+      'sequenceDiagram\n  A->>B: hi',
+    ]);
+    const result = await copyMermaidChunks(
+      chunksDir,
+      destDir,
+      selection.ok ? selection.chunks : new Set(),
+    );
+
+    expect((await readdir(destDir)).sort(), 'to equal', [
+      'chunk-CORE.mjs',
+      'chunk-CORE.mjs.map',
+      'chunk-STYLE.mjs',
+      'chunk-STYLE.mjs.map',
+      'sequenceDiagram-X.mjs',
+      'sequenceDiagram-X.mjs.map',
+    ]);
+    expect(result, 'to equal', {
+      copied: 3,
+      saved:
+        CHUNKS['chunk-LAYOUT.mjs']!.length +
+        CHUNKS['chunk-SHARED.mjs']!.length +
+        CHUNKS['flowDiagram-Y.mjs']!.length +
+        CHUNKS['swirlDiagram-Z.mjs']!.length +
+        4 * '{}'.length,
+      total: 7,
+    });
+  });
+
+  it("should map diagram types to chunks in the installed Mermaid's build", async () => {
+    const resolution = resolveMermaidDistPath();
+    if (!resolution.ok) {
+      throw new Error(resolution.error);
+    }
+    const { distPath } = resolution;
+    const selection = await selectMermaidChunks(
+      join(distPath, 'mermaid.esm.min.mjs'),
+      join(distPath, 'chunks', 'mermaid.esm.min'),
+      [
+        'graph TD\n  A --> B',
+        'sequenceDiagram\n  A->>B: hi',
+        'classDiagram\n  class A',
+      ],
+    );
+
+    expect(selection.ok, 'to be true');
+    expect(
+      selection.ok &&
+        [...selection.chunks].some((chunk) => chunk.startsWith('flowDiagram-')),
+      'to be true',
+    );
+  });
+});
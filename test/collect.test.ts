@@ -0,0 +1,97 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import {
+  type CommentDisplayPart,
+  FileRegistry,
+  ProjectReflection,
+} from 'typedoc';
+
+import {
+  collectMermaidBlockProblems,
+  collectMermaidDiagrams,
+  extractMermaidCode,
+} from '../src/collect.js';
+
+describe('extractMermaidCode', () => {
+  it('should extract the code of fenced mermaid blocks', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'text', text: 'A diagram:\n\n' },
+      { kind: 'code', text: '```mermaid\ngraph TD\n  A --> B\n```' },
+    ];
+
+    expect(extractMermaidCode(parts), 'to equal', ['graph TD\n  A --> B']);
+  });
+
+  it('should support tilde fences', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'code', text: '~~~mermaid\ngraph TD\n~~~' },
+    ];
+
+    expect(extractMermaidCode(parts), 'to equal', ['graph TD']);
+  });
+
+  it('should ignore other code blocks and inline code', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'code', text: '```ts\nconst x = 1;\n```' },
+      { kind: 'code', text: '`mermaid`' },
+      { kind: 'text', text: '```mermaid\ngraph TD\n```' },
+    ];
+
+    expect(extractMermaidCode(parts), 'to equal', []);
+  });
+
+  it('should trim the extracted code', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'code', text: '```mermaid\n\n  graph TD  \n\n```' },
+    ];
+
+    expect(extractMermaidCode(parts), 'to equal', ['graph TD']);
+  });
+
+  it('should apply a theme override from the fence options', () => {
+    const parts: CommentDisplayPart[] = [
+      {
+        kind: 'code',
+        text: '```mermaid title="Flow" theme=neutral\ngraph TD\n```',
+      },
+    ];
+
+    expect(extractMermaidCode(parts), 'to equal', [
+      '%%{init:{"theme":"neutral"}}%%\ngraph TD',
+    ]);
+  });
+});
+
+describe('collectMermaidDiagrams', () => {
+  it('should collect each diagram in the project readme once', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+    project.readme = [{ kind: 'code', text: '```mermaid\ngraph TD\n```' }];
+
+    expect(collectMermaidDiagrams(project), 'to equal', [
+      { code: 'graph TD', reflection: project },
+    ]);
+  });
+});
+
+describe('collectMermaidBlockProblems', () => {
+  it('should report ignored options with the reflection of their block', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+    project.readme = [
+      { kind: 'code', text: '```mermaid bogus theme=plaid\ngraph TD\n```' },
+      { kind: 'code', text: '```mermaid title="Fine"\ngraph TD\n```' },
+    ];
+
+    expect(collectMermaidBlockProblems(project), 'to equal', [
+      {
+        message:
+          '[typedoc-plugin-mermaid] Unknown Mermaid block option "bogus"',
+        reflection: project,
+      },
+      {
+        message:
+          '[typedoc-plugin-mermaid] Invalid value "plaid" for Mermaid block option "theme"',
+        reflection: project,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from 'bupkis';
+import { type MermaidConfig } from 'mermaid';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+import {
+  DEFAULT_MERMAID_CONFIG,
+  loadMermaidConfig,
+  mergeMermaidConfig,
+  serializeMermaidConfig,
+} from '../src/config.js';
+
+/**
+ * Configuration JSON can't represent. Mermaid types `themeVariables` loosely,
+ * so it can hold any value.
+ */
+const UNSERIALIZABLE_CONFIG = {
+  classInstance: { themeVariables: { primaryColor: new Date() } },
+  function: { themeVariables: { primaryColor: () => '#fff' } },
+} satisfies Record<string, MermaidConfig>;
+
+describe('mergeMermaidConfig', () => {
+  it('should return the defaults when no configuration is given', () => {
+    expect(mergeMermaidConfig(), 'to equal', DEFAULT_MERMAID_CONFIG);
+  });
+
+  it('should deep-merge nested objects', () => {
+    expect(
+      mergeMermaidConfig({
+        flowchart: { curve: 'basis' },
+        gantt: { barHeight: 30 },
+      }),
+      'to equal',
+      {
+        flowchart: { curve: 'basis', useMaxWidth: true },
+        gantt: { barHeight: 30 },
+        sequence: { useMaxWidth: true },
+      },
+    );
+  });
+
+  it('should let configuration override defaults', () => {
+    expect(
+      mergeMermaidConfig({ flowchart: { useMaxWidth: false } }).flowchart,
+      'to equal',
+      { useMaxWidth: false },
+    );
+  });
+});
+
+describe('serializeMermaidConfig', () => {
+  it('should serialize configuration as JSON', () => {
+    expect(
+      serializeMermaidConfig({ fontFamily: 'Inter', gantt: { barHeight: 30 } }),
+      'to equal',
+      '{"fontFamily":"Inter","gantt":{"barHeight":30}}',
+    );
+  });
+
+  it('should escape "<" so the script cannot be closed early', () => {
+    expect(
+      serializeMermaidConfig({ fontFamily: '</script>' }),
+      'to equal',
+      '{"fontFamily":"\\u003c/script>"}',
+    );
+  });
+
+  it('should name the path of a non-serializable value', () => {
+    let serializeError: Error | undefined;
+    try {
+      serializeMermaidConfig(UNSERIALIZABLE_CONFIG.function);
+    } catch (err) {
+      serializeError = err as Error;
+    }
+
+    expect(
+      serializeError?.message,
+      'to match',
+      /mermaidConfig\.themeVariables\.primaryColor is a function/,
+    );
+  });
+
+  it('should reject class instances', () => {
+    let serializeError: Error | undefined;
+    try {
+      serializeMermaidConfig(UNSERIALIZABLE_CONFIG.classInstance);
+    } catch (err) {
+      serializeError = err as Error;
+    }
+
+    expect(
+      serializeError?.message,
+      'to match',
+      /mermaidConfig\.themeVariables\.primaryColor is a Date/,
+    );
+  });
+});
+
+describe('loadMermaidConfig', () => {
+  it('should return an object as-is', async () => {
+    const config = { fontFamily: 'Inter' };
+
+    expect(await loadMermaidConfig(config, '/'), 'to equal', config);
+  });
+
+  it('should read a JSON file relative to the base directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mermaid-config-'));
+    writeFileSync(join(dir, 'mermaid.json'), '{"fontFamily":"Inter"}');
+
+    expect(await loadMermaidConfig('mermaid.json', dir), 'to equal', {
+      fontFamily: 'Inter',
+    });
+  });
+
+  it('should import the default export of a JavaScript file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mermaid-config-'));
+    writeFileSync(
+      join(dir, 'mermaid.mjs'),
+      'export default { securityLevel: "strict" };',
+    );
+
+    expect(await loadMermaidConfig('mermaid.mjs', dir), 'to equal', {
+      securityLevel: 'strict',
+    });
+  });
+
+  it('should reject a file which does not exist', async () => {
+    let loadError: Error | undefined;
+    try {
+      await loadMermaidConfig('missing.json', tmpdir());
+    } catch (err) {
+      loadError = err as Error;
+    }
+
+    expect(loadError?.message, 'to match', /Failed to load mermaidConfig/);
+  });
+
+  it('should reject values which are not objects', async () => {
+    let loadError: Error | undefined;
+    try {
+      await loadMermaidConfig(['fontFamily'], '/');
+    } catch (err) {
+      loadError = err as Error;
+    }
+
+    expect(loadError?.message, 'to match', /must be an object/);
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+
+import { addNonce, toModule, toStylesheet, validateNonce } from '../src/csp.js';
+
+describe('validateNonce', () => {
+  it('should accept nonces and placeholders', () => {
+    validateNonce('');
+    validateNonce('rAnd0m+/base64==');
+    validateNonce('{{nonce}}');
+  });
+
+  it('should reject values which would break out of the attribute', () => {
+    let validationError: Error | undefined;
+    try {
+      validateNonce('abc" onload="alert(1)');
+    } catch (err) {
+      validationError = err as Error;
+    }
+
+    expect(validationError, 'to be a', TypeError);
+    expect(validationError?.message, 'to contain', 'mermaidCspNonce');
+  });
+});
+
+describe('addNonce', () => {
+  it('should add the nonce to links, scripts and styles', () => {
+    expect(
+      addNonce(
+        '<style>a{}</style><link rel="stylesheet" href="x.css"><script type="module" src="x.mjs"></script><div></div>',
+        'n0nce',
+      ),
+      'to equal',
+      '<style nonce="n0nce">a{}</style><link nonce="n0nce" rel="stylesheet" href="x.css"><script nonce="n0nce" type="module" src="x.mjs"></script><div></div>',
+    );
+  });
+
+  it('should leave the HTML alone without a nonce', () => {
+    expect(addNonce('<style>a{}</style>'), 'to equal', '<style>a{}</style>');
+  });
+});
+
+describe('toStylesheet', () => {
+  it('should join the CSS of each style element', () => {
+    expect(
+      toStylesheet(
+        '\n<style>\na {}\n</style>\n<style>b {}</style>\n<style></style>',
+      ),
+      'to equal',
+      'a {}\n\nb {}\n',
+    );
+  });
+});
+
+describe('toModule', () => {
+  it('should extract the code of a module script', () => {
+    expect(
+      toModule(
+        '\n<link rel="modulepreload" href="x.mjs">\n<script type="module">\nimport x from "x.mjs";\n</script>\n',
+      ),
+      'to equal',
+      'import x from "x.mjs";\n',
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import {
+  DeclarationReflection,
+  FileRegistry,
+  type NormalizedPath,
+  ProjectReflection,
+  ReferenceType,
+  ReflectionKind,
+  SourceReference,
+} from 'typedoc';
+
+import { addModuleGraph, buildModuleGraph } from '../src/dependencies.js';
+
+/**
+ * Helper to create a project where `a` uses a type from `b`, and `b` uses one
+ * from `util/c`.
+ */
+const createProject = () => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const addModule = (name: string) => {
+    const module = new DeclarationReflection(
+      name,
+      ReflectionKind.Module,
+      project,
+    );
+    module.sources = [
+      new SourceReference(`${name}.ts` as NormalizedPath, 1, 1),
+    ];
+    project.registerReflection(module, undefined, undefined);
+    project.addChild(module);
+    return module;
+  };
+  const addChild = (module: DeclarationReflection, name: string) => {
+    const child = new DeclarationReflection(
+      name,
+      ReflectionKind.Interface,
+      module,
+    );
+    module.addChild(child);
+    project.registerReflection(child, undefined, undefined);
+    return child;
+  };
+  const uses = (
+    module: DeclarationReflection,
+    target: DeclarationReflection,
+  ) => {
+    const child = addChild(module, `uses${target.name}`);
+    child.type = ReferenceType.createResolvedReference(
+      target.name,
+      target,
+      project,
+    );
+  };
+
+  const a = addModule('a');
+  const b = addModule('b');
+  const c = addModule('util/c');
+  uses(a, addChild(b, 'B'));
+  uses(b, addChild(c, 'C'));
+
+  return { a, b, c, project };
+};
+
+describe('buildModuleGraph', () => {
+  it('should link modules to the modules they reference', () => {
+    const { a, b, c, project } = createProject();
+    const graph = buildModuleGraph(project, { maxNodes: 50 })!;
+
+    expect(graph.shown, 'to equal', 3);
+    expect(graph.total, 'to equal', 3);
+    expect(graph.code, 'to contain', `  M${a.id} --> M${b.id}`);
+    expect(graph.code, 'to contain', `  M${b.id} --> M${c.id}`);
+    expect(graph.code, 'not to contain', `  M${a.id} --> M${c.id}`);
+    expect(
+      graph.code,
+      'to contain',
+      `  click M${c.id} href "__typedoc_ref_${c.id}__"`,
+    );
+  });
+
+  it('should group modules by directory', () => {
+    const { c, project } = createProject();
+    const { code } = buildModuleGraph(project, { maxNodes: 50 })!;
+
+    expect(
+      code,
+      'to contain',
+      `  subgraph D1["util"]\n    M${c.id}["util/c"]\n  end`,
+    );
+  });
+
+  it('should keep only the most connected modules', () => {
+    const { a, b, project } = createProject();
+    const graph = buildModuleGraph(project, { maxNodes: 1 })!;
+
+    expect(graph.shown, 'to equal', 1);
+    expect(graph.code, 'to contain', `M${b.id}["b"]`);
+    expect(graph.code, 'not to contain', `M${a.id}[`);
+    expect(graph.code, 'not to contain', '-->');
+  });
+
+  it('should return undefined for a single-module project', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+
+    expect(buildModuleGraph(project, { maxNodes: 50 }), 'to be undefined');
+  });
+});
+
+describe('addModuleGraph', () => {
+  it('should add a document to the project', () => {
+    const { project } = createProject();
+    addModuleGraph(project, { maxNodes: 50, placement: 'page' });
+
+    const [document] = project.documents ?? [];
+    expect(document?.name, 'to equal', 'Module Dependencies');
+    expect(
+      document!.content[0]!.text,
+      'to start with',
+      '```mermaid\nflowchart',
+    );
+  });
+
+  it('should append a section to the project readme', () => {
+    const { project } = createProject();
+    project.readme = [{ kind: 'text', text: 'Hello' }];
+    addModuleGraph(project, { maxNodes: 1, placement: 'index' });
+
+    expect(
+      project.readme.map((part) => part.text).join(''),
+      'to start with',
+      'Hello\n\n## Module Dependencies\n\nShowing the 1 most connected of 3 modules.\n\n```mermaid\n',
+    );
+  });
+
+  it('should do nothing when off', () => {
+    const { project } = createProject();
+
+    expect(
+      addModuleGraph(project, { maxNodes: 50, placement: 'off' }),
+      'to be undefined',
+    );
+    expect(project.documents, 'to be undefined');
+  });
+});
@@ -0,0 +1,279 @@
+import { expect } from 'bupkis';
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  copyMermaidExtensions,
+  getExtensionsScript,
+  type MermaidExtensions,
+  resolveMermaidExtensions,
+  validateIconPacks,
+} from '../src/extensions.js';
+
+/**
+ * Files of a project using extensions, relative to its root.
+ */
+const FILES: Record<string, string> = {
+  'diagrams/a/index.mjs': 'export default { id: "a" };',
+  'diagrams/b/index.mjs': 'export default { id: "b" };',
+  'icons/custom.json': '{"prefix":"custom","icons":{}}',
+  'node_modules/@iconify-json/logos/icons.json': '{"prefix":"logos"}',
+  'node_modules/@iconify-json/logos/package.json': '{"version":"1.2.3"}',
+  'node_modules/@mermaid-js/layout-elk/dist/chunks/mermaid-layout-elk.esm.min/render.mjs':
+    'export{};',
+  'node_modules/@mermaid-js/layout-elk/dist/mermaid-layout-elk.core.mjs':
+    'export{};',
+  'node_modules/@mermaid-js/layout-elk/dist/mermaid-layout-elk.esm.min.mjs':
+    'export default [];',
+  'node_modules/@mermaid-js/layout-elk/package.json': '{"version":"0.2.3"}',
+  'node_modules/two-builds/dist/a.esm.min.mjs': 'export{};',
+  'node_modules/two-builds/dist/b.esm.min.mjs': 'export{};',
+  'node_modules/two-builds/package.json': '{"version":"1.0.0"}',
+};
+
+describe('validateIconPacks', () => {
+  it('should accept icon packs keyed by name', () => {
+    validateIconPacks({});
+    validateIconPacks({
+      'aws-icons': './aws.json',
+      logos: '@iconify-json/logos',
+    });
+  });
+
+  it('should reject invalid names and sources', () => {
+    for (const value of [[], { Logos: 'x' }, { logos: '' }, { logos: 1 }]) {
+      let validationError: Error | undefined;
+      try {
+        validateIconPacks(value);
+      } catch (err) {
+        validationError = err as Error;
+      }
+
+      expect(validationError, 'to be a', TypeError);
+    }
+  });
+});
+
+describe('resolveMermaidExtensions', () => {
+  let cwd: string;
+
+  before(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'mermaid-extensions-'));
+    for (const [path, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(cwd, path)), { recursive: true });
+      await writeFile(join(cwd, path), content);
+    }
+  });
+
+  after(async () => {
+    await rm(cwd, { force: true, recursive: true });
+  });
+
+  it('should copy packages and files in local mode', async () => {
+    const extensions = await resolveMermaidExtensions(
+      {
+        diagrams: [],
+        iconPacks: {
+          custom: './icons/custom.json',
+          logos: '@iconify-json/logos',
+        },
+        layouts: ['@mermaid-js/layout-elk'],
+      },
+      { copy: true, cwd },
+    );
+
+    expect(extensions, 'to equal', {
+      diagrams: [],
+      iconPacks: [
+        {
+          copy: [
+            { from: join(cwd, 'icons/custom.json'), to: 'icons/custom.json' },
+          ],
+          name: 'custom',
+          url: 'icons/custom.json',
+        },
+        {
+          copy: [
+            {
+              from: join(cwd, 'node_modules/@iconify-json/logos/icons.json'),
+              to: 'icons/logos.json',
+            },
+          ],
+          name: 'logos',
+          url: 'icons/logos.json',
+        },
+      ],
+      layouts: [
+        {
+          copy: [
+            {
+              from: join(
+                cwd,
+                'node_modules/@mermaid-js/layout-elk/dist/mermaid-layout-elk.esm.min.mjs',
+              ),
+              to: '@mermaid-js/layout-elk/dist/mermaid-layout-elk.esm.min.mjs',
+            },
+            {
+              from: join(
+                cwd,
+                'node_modules/@mermaid-js/layout-elk/dist/chunks/mermaid-layout-elk.esm.min',
+              ),
+              to: '@mermaid-js/layout-elk/dist/chunks/mermaid-layout-elk.esm.min',
+            },
+          ],
+          url: '@mermaid-js/layout-elk/dist/mermaid-layout-elk.esm.min.mjs',
+        },
+      ],
+    });
+  });
+
+  it('should load packages from the CDN at their installed version in CDN mode', async () => {
+    const extensions = await resolveMermaidExtensions(
+      {
+        diagrams: ['two-builds/dist/b.esm.min.mjs'],
+        iconPacks: { logos: '@iconify-json/logos' },
+        layouts: ['https://example.com/elk.mjs'],
+      },
+      { copy: false, cwd },
+    );
+
+    expect(
+      [...extensions.diagrams, ...extensions.iconPacks, ...extensions.layouts],
+      'to equal',
+      [
+        {
+          copy: [],
+          url: 'https://unpkg.com/two-builds@1.0.0/dist/b.esm.min.mjs',
+        },
+        {
+          copy: [],
+          name: 'logos',
+          url: 'https://unpkg.com/@iconify-json/logos@1.2.3/icons.json',
+        },
+        { copy: [], url: 'https://example.com/elk.mjs' },
+      ],
+    );
+  });
+
+  it('should fail for missing packages, files and builds', async () => {
+    for (const [specifier, message] of [
+      ['@mermaid-js/mermaid-zenuml', 'npm install @mermaid-js/mermaid-zenuml'],
+      ['./missing.mjs', 'not found'],
+      ['two-builds', 'name the file'],
+    ] as const) {
+      let resolveError: Error | undefined;
+      try {
+        await resolveMermaidExtensions(
+          { diagrams: [specifier], iconPacks: {}, layouts: [] },
+          { copy: true, cwd },
+        );
+      } catch (err) {
+        resolveError = err as Error;
+      }
+
+      expect(resolveError?.message, 'to contain', message);
+    }
+  });
+
+  it('should copy extension files into the assets directory', async () => {
+    const extensions = await resolveMermaidExtensions(
+      {
+        diagrams: [],
+        iconPacks: { logos: '@iconify-json/logos' },
+        layouts: ['@mermaid-js/layout-elk'],
+      },
+      { copy: true, cwd },
+    );
+    const destDir = join(cwd, 'out');
+
+    expect(await copyMermaidExtensions(extensions, destDir), 'to equal', 3);
+    expect((await readdir(join(destDir, 'icons'))).sort(), 'to equal', [
+      'logos.json',
+    ]);
+    expect(
+      (
+        await readdir(join(destDir, '@mermaid-js/layout-elk/dist'), {
+          recursive: true,
+        })
+      ).sort(),
+      'to equal',
+      [
+        'chunks',
+        join('chunks', 'mermaid-layout-elk.esm.min'),
+        join('chunks', 'mermaid-layout-elk.esm.min', 'render.mjs'),
+        'mermaid-layout-elk.esm.min.mjs',
+      ],
+    );
+  });
+
+  it('should copy files of the same name from different directories apart', async () => {
+    const extensions = await resolveMermaidExtensions(
+      {
+        diagrams: ['./diagrams/a/index.mjs', './diagrams/b/index.mjs'],
+        iconPacks: {},
+        layouts: [],
+      },
+      { copy: true, cwd },
+    );
+    const [a, b] = extensions.diagrams.map(({ url }) => url);
+
+    expect(a, 'to match', /^extensions\/[0-9a-f]{8}\/index\.mjs$/);
+    expect(b, 'to match', /^extensions\/[0-9a-f]{8}\/index\.mjs$/);
+    expect(a, 'not to equal', b);
+
+    const destDir = join(cwd, 'out-same-name');
+    await copyMermaidExtensions(extensions, destDir);
+    expect(await readFile(join(destDir, a!), 'utf8'), 'to contain', 'id: "a"');
+    expect(await readFile(join(destDir, b!), 'utf8'), 'to contain', 'id: "b"');
+  });
+});
+
+describe('getExtensionsScript', () => {
+  it('should return nothing without extensions', () => {
+    expect(
+      getExtensionsScript({ diagrams: [], iconPacks: [], layouts: [] }, './'),
+      'to equal',
+      '',
+    );
+  });
+
+  it('should import and register each extension', () => {
+    const extensions: MermaidExtensions = {
+      diagrams: [{ copy: [], url: 'https://example.com/zenuml.mjs' }],
+      iconPacks: [
+        {
+          copy: [{ from: '/icons/logos.json', to: 'icons/logos.json' }],
+          name: 'logos',
+          url: 'icons/logos.json',
+        },
+      ],
+      layouts: [
+        {
+          copy: [{ from: '/elk.mjs', to: 'elk.mjs' }],
+          url: 'elk.mjs',
+        },
+      ],
+    };
+
+    expect(
+      getExtensionsScript(extensions, '../assets/mermaid/'),
+      'to equal',
+      [
+        'import mermaidLayouts0 from "../assets/mermaid/elk.mjs";',
+        'import mermaidDiagram0 from "https://example.com/zenuml.mjs";',
+        'mermaid.registerLayoutLoaders(mermaidLayouts0);',
+        'mermaid.registerIconPacks([{ name: "logos", loader: () => fetch(new URL("../assets/mermaid/icons/logos.json", import.meta.url)).then((res) => res.json()) }]);',
+        'await mermaid.registerExternalDiagrams([mermaidDiagram0]);',
+      ].join('\n'),
+    );
+  });
+});
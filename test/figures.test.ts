@@ -0,0 +1,128 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import { FileRegistry, ProjectReflection } from 'typedoc';
+
+import {
+  createFigureState,
+  findUndescribedDiagrams,
+  getDiagramMetadata,
+  getFigureCaption,
+  getFigureId,
+  splitFrontMatter,
+} from '../src/figures.js';
+
+describe('splitFrontMatter', () => {
+  it('should separate front matter from the diagram', () => {
+    expect(splitFrontMatter('---\ntitle: Flow\n---\ngraph TD'), 'to equal', [
+      '---\ntitle: Flow\n---\n',
+      'graph TD',
+    ]);
+  });
+
+  it('should return empty front matter when there is none', () => {
+    expect(splitFrontMatter('graph TD'), 'to equal', ['', 'graph TD']);
+  });
+});
+
+describe('getDiagramMetadata', () => {
+  it('should read the front matter title and accessibility metadata', () => {
+    const code = [
+      '---',
+      'title: "Order flow"',
+      '---',
+      'flowchart LR',
+      '  accTitle: Orders',
+      '  accDescr: How an order moves',
+      '  A --> B',
+    ].join('\n');
+
+    expect(getDiagramMetadata(code), 'to equal', {
+      accDescr: 'How an order moves',
+      accTitle: 'Orders',
+      title: 'Order flow',
+    });
+  });
+
+  it('should read a multi-line accDescr', () => {
+    const code =
+      'flowchart LR\n  accDescr {\n    First line,\n    second line\n  }\n  A --> B';
+
+    expect(getDiagramMetadata(code), 'to equal', {
+      accDescr: 'First line, second line',
+    });
+  });
+
+  it('should return nothing for a diagram without metadata', () => {
+    expect(getDiagramMetadata('graph TD\n  A --> B'), 'to equal', {});
+  });
+});
+
+describe('findUndescribedDiagrams', () => {
+  it('should find diagrams without an accessible description', () => {
+    const reflection = new ProjectReflection('test', new FileRegistry());
+    const described = {
+      code: 'flowchart LR\n  accDescr: How an order moves\n  A --> B',
+      reflection,
+    };
+    const titled = {
+      code: 'flowchart LR\n  accTitle: Orders\n  A --> B',
+      reflection,
+    };
+
+    expect(findUndescribedDiagrams([described, titled]), 'to equal', [titled]);
+  });
+});
+
+describe('getFigureCaption', () => {
+  it('should number captions when requested', () => {
+    const state = createFigureState(true);
+
+    expect(getFigureCaption(state, 'Flow'), 'to equal', 'Figure 1: Flow');
+    expect(getFigureCaption(state), 'to equal', 'Figure 2');
+  });
+
+  it('should use the title alone otherwise', () => {
+    const state = createFigureState();
+
+    expect(getFigureCaption(state, 'Flow'), 'to equal', 'Flow');
+    expect(getFigureCaption(state), 'to be undefined');
+  });
+});
+
+describe('getFigureId', () => {
+  it('should slugify the title and keep ids unique', () => {
+    const state = createFigureState();
+
+    expect(
+      getFigureId(state, 'a', 'Café Orders!'),
+      'to equal',
+      'mermaid-cafe-orders',
+    );
+    expect(
+      getFigureId(state, 'b', 'Café Orders!'),
+      'to equal',
+      'mermaid-cafe-orders-2',
+    );
+  });
+
+  it('should prefer an explicit id', () => {
+    expect(
+      getFigureId(createFigureState(), 'a', 'Flow', 'my-flow'),
+      'to equal',
+      'my-flow',
+    );
+  });
+
+  it('should hash the code of untitled diagrams', () => {
+    expect(
+      getFigureId(createFigureState(), 'graph TD'),
+      'to equal',
+      getFigureId(createFigureState(), 'graph TD'),
+    );
+    expect(
+      getFigureId(createFigureState(), 'graph TD'),
+      'not to equal',
+      getFigureId(createFigureState(), 'graph LR'),
+    );
+  });
+});
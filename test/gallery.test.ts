@@ -0,0 +1,154 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import {
+  DeclarationReflection,
+  FileRegistry,
+  ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+} from 'typedoc';
+
+import {
+  findDiagramOwner,
+  getDiagramModule,
+  groupIndexedDiagrams,
+  type IndexedDiagram,
+} from '../src/gallery.js';
+
+/**
+ * Helper to create a project with modules `b` and `a`, where `a` has a class
+ * with a property.
+ */
+const createProject = () => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const add = (
+    name: string,
+    kind: ReflectionKind,
+    parent: DeclarationReflection | ProjectReflection,
+  ) => {
+    const child = new DeclarationReflection(name, kind, parent);
+    parent.addChild(child);
+    project.registerReflection(child, undefined, undefined);
+    return child;
+  };
+
+  const b = add('b', ReflectionKind.Module, project);
+  const a = add('a', ReflectionKind.Module, project);
+  const money = add('Money', ReflectionKind.Class, a);
+  const amount = add('amount', ReflectionKind.Property, money);
+
+  return { a, amount, b, money, project };
+};
+
+/**
+ * Helper to create an indexed diagram.
+ */
+const indexed = (
+  module: Reflection,
+  type: string,
+  anchor: string,
+): IndexedDiagram => ({
+  anchor,
+  module,
+  pageUrl: 'index.html',
+  preview: '',
+  reflection: module,
+  type,
+});
+
+describe('findDiagramOwner', () => {
+  const { amount, money, project } = createProject();
+  const urls = new Map<Reflection, string>([
+    [amount, 'classes/a.Money.html#amount'],
+    [money, 'classes/a.Money.html'],
+    [project, 'index.html'],
+  ]);
+  const page = { model: money, url: 'classes/a.Money.html' };
+  const getUrl = (reflection: Reflection) => urls.get(reflection);
+
+  it('should find the member on the page documenting the diagram', () => {
+    const diagrams = [
+      { code: 'graph TD\n  A --> B', reflection: project },
+      { code: 'graph TD\n  A --> B', reflection: amount },
+    ];
+
+    expect(
+      findDiagramOwner('graph TD\n  A --> B', page, diagrams, getUrl).id,
+      'to equal',
+      amount.id,
+    );
+  });
+
+  it('should match diagrams with a theme override after their front matter', () => {
+    const diagrams = [
+      {
+        code: '---\ntitle: Flow\n---\n%%{init:{"theme":"forest"}}%%\ngraph TD',
+        reflection: amount,
+      },
+    ];
+
+    expect(
+      findDiagramOwner(
+        '---\ntitle: Flow\n---\ngraph TD',
+        page,
+        diagrams,
+        getUrl,
+      ).id,
+      'to equal',
+      amount.id,
+    );
+  });
+
+  it("should fall back to the page's own reflection", () => {
+    expect(
+      findDiagramOwner('graph LR', page, [], getUrl).id,
+      'to equal',
+      money.id,
+    );
+  });
+});
+
+describe('getDiagramModule', () => {
+  it('should find the nearest module, or the project', () => {
+    const { a, amount, project } = createProject();
+
+    expect(getDiagramModule(amount).id, 'to equal', a.id);
+    expect(getDiagramModule(a).id, 'to equal', a.id);
+    expect(getDiagramModule(project).id, 'to equal', project.id);
+  });
+});
+
+describe('groupIndexedDiagrams', () => {
+  it('should group by module, then type, with the project first', () => {
+    const { a, b, project } = createProject();
+    const groups = groupIndexedDiagrams([
+      indexed(b, 'graph', 'b-1'),
+      indexed(a, 'sequenceDiagram', 'a-1'),
+      indexed(project, 'pie', 'p-1'),
+      indexed(a, 'classDiagram', 'a-2'),
+      indexed(a, 'sequenceDiagram', 'a-3'),
+    ]);
+
+    expect(
+      groups.map(([module, types]) => [
+        module.name,
+        types.map(([type, diagrams]) => [
+          type,
+          diagrams.map(({ anchor }) => anchor),
+        ]),
+      ]),
+      'to equal',
+      [
+        ['test', [['pie', ['p-1']]]],
+        [
+          'a',
+          [
+            ['classDiagram', ['a-2']],
+            ['sequenceDiagram', ['a-1', 'a-3']],
+          ],
+        ],
+        ['b', [['graph', ['b-1']]]],
+      ],
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import {
+  Comment,
+  CommentTag,
+  DeclarationReflection,
+  FileRegistry,
+  ProjectReflection,
+  ReferenceType,
+  ReflectionFlag,
+  ReflectionKind,
+} from 'typedoc';
+
+import {
+  addHierarchyDiagrams,
+  buildHierarchyDiagram,
+  MERMAID_HIERARCHY_TAG,
+} from '../src/hierarchy.js';
+
+/**
+ * Helper to create a project with `Base implements Named`, `Circle extends
+ * Base` and `BigCircle extends Circle`.
+ */
+const createProject = () => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const add = (name: string, kind: ReflectionKind) => {
+    const reflection = new DeclarationReflection(name, kind, project);
+    project.registerReflection(reflection, undefined, undefined);
+    return reflection;
+  };
+  const ref = (target: DeclarationReflection) =>
+    ReferenceType.createResolvedReference(target.name, target, project);
+
+  const named = add('Named', ReflectionKind.Interface);
+  const base = add('Base', ReflectionKind.Class);
+  const circle = add('Circle', ReflectionKind.Class);
+  const bigCircle = add('BigCircle', ReflectionKind.Class);
+
+  base.implementedTypes = [ref(named)];
+  named.implementedBy = [ref(base)];
+  circle.extendedTypes = [ref(base)];
+  base.extendedBy = [ref(circle)];
+  bigCircle.extendedTypes = [ref(circle)];
+  circle.extendedBy = [ref(bigCircle)];
+
+  const radius = new DeclarationReflection(
+    'radius',
+    ReflectionKind.Property,
+    circle,
+  );
+  radius.setFlag(ReflectionFlag.Protected, true);
+  circle.children = [radius];
+
+  return { base, bigCircle, circle, named, project };
+};
+
+describe('buildHierarchyDiagram', () => {
+  it('should include ancestors, descendants and implemented interfaces', () => {
+    const { base, bigCircle, circle, named } = createProject();
+    const code = buildHierarchyDiagram(circle, { depth: 2, members: false });
+
+    expect(
+      code,
+      'to equal',
+      [
+        'classDiagram',
+        '  accTitle: Hierarchy of Circle',
+        '  accDescr: Circle with its ancestors, descendants and implemented interfaces',
+        `  class R${circle.id}["Circle"]`,
+        `  class R${base.id}["Base"]`,
+        `  class R${named.id}["Named"]`,
+        `  <<interface>> R${named.id}`,
+        `  class R${bigCircle.id}["BigCircle"]`,
+        `  R${base.id} <|-- R${circle.id}`,
+        `  R${named.id} <|.. R${base.id}`,
+        `  R${circle.id} <|-- R${bigCircle.id}`,
+        `  click R${base.id} href "__typedoc_ref_${base.id}__"`,
+        `  click R${named.id} href "__typedoc_ref_${named.id}__"`,
+        `  click R${bigCircle.id} href "__typedoc_ref_${bigCircle.id}__"`,
+        `  class R${circle.id}:::mermaidCurrent`,
+        '  classDef mermaidCurrent fill:#fbbf24,stroke:#b45309,color:#000',
+      ].join('\n'),
+    );
+  });
+
+  it('should stop at the configured depth', () => {
+    const { base, bigCircle, named } = createProject();
+    const code = buildHierarchyDiagram(bigCircle, {
+      depth: 1,
+      members: false,
+    })!;
+
+    expect(code, 'to contain', '["Circle"]');
+    expect(code, 'not to contain', `R${base.id}`);
+    expect(code, 'not to contain', `R${named.id}`);
+  });
+
+  it('should list members when requested', () => {
+    const { circle } = createProject();
+    const code = buildHierarchyDiagram(circle, { depth: 1, members: true })!;
+
+    expect(
+      code,
+      'to contain',
+      `  class R${circle.id}["Circle"] {\n    #radius\n  }`,
+    );
+  });
+
+  it('should show external types without linking them', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+    const error = new DeclarationReflection(
+      'MyError',
+      ReflectionKind.Class,
+      project,
+    );
+    error.extendedTypes = [
+      ReferenceType.createBrokenReference('Error', project, undefined),
+    ];
+    const code = buildHierarchyDiagram(error, { depth: 2, members: false })!;
+
+    expect(code, 'to contain', '  class X1["Error"]');
+    expect(code, 'to contain', `  X1 <|-- R${error.id}`);
+    expect(code, 'not to contain', 'click X1');
+  });
+
+  it('should return undefined for a reflection with no relations', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+    const lonely = new DeclarationReflection(
+      'Lonely',
+      ReflectionKind.Class,
+      project,
+    );
+
+    expect(
+      buildHierarchyDiagram(lonely, { depth: 2, members: false }),
+      'to be undefined',
+    );
+  });
+});
+
+describe('addHierarchyDiagrams', () => {
+  const options = { auto: false, depth: 2, members: false };
+
+  it('should replace the modifier tag with a diagram', () => {
+    const { circle, project } = createProject();
+    circle.comment = new Comment([], [], new Set([MERMAID_HIERARCHY_TAG]));
+
+    addHierarchyDiagrams(project, options);
+
+    expect(circle.comment.hasModifier(MERMAID_HIERARCHY_TAG), 'to be false');
+    const [tag] = circle.comment.getTags(MERMAID_HIERARCHY_TAG);
+    expect(tag, 'to be a', CommentTag);
+    expect(tag!.content[0]!.text, 'to start with', '```mermaid\nclassDiagram');
+  });
+
+  it('should skip untagged reflections unless auto is enabled', () => {
+    const { circle, project } = createProject();
+
+    addHierarchyDiagrams(project, options);
+    expect(circle.comment, 'to be undefined');
+
+    addHierarchyDiagrams(project, { ...options, auto: true });
+    expect(circle.comment?.getTags(MERMAID_HIERARCHY_TAG), 'to have length', 1);
+  });
+});
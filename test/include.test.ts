@@ -0,0 +1,152 @@
+import { expect } from 'bupkis';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { before, describe, it } from 'node:test';
+import {
+  type CommentDisplayPart,
+  DocumentReflection,
+  FileRegistry,
+  type NormalizedPath,
+  ProjectReflection,
+} from 'typedoc';
+
+import {
+  expandAllMermaidIncludes,
+  expandMermaidIncludes,
+  resolveMermaidInclude,
+} from '../src/include.js';
+
+describe('resolveMermaidInclude', () => {
+  it('should resolve ./ paths relative to the source file', () => {
+    expect(
+      resolveMermaidInclude('./diagrams/flow.mmd', {
+        baseDir: '/project',
+        sourcePath: '/project/src/foo.ts',
+      }),
+      'to equal',
+      resolve('/project/src/diagrams/flow.mmd'),
+    );
+  });
+
+  it('should resolve ../ paths relative to the source file', () => {
+    expect(
+      resolveMermaidInclude('../flow.mmd', {
+        baseDir: '/project',
+        sourcePath: '/project/src/foo.ts',
+      }),
+      'to equal',
+      resolve('/project/flow.mmd'),
+    );
+  });
+
+  it('should resolve bare paths relative to the base directory', () => {
+    expect(
+      resolveMermaidInclude('diagrams/flow.mmd', {
+        baseDir: '/project',
+        sourcePath: '/project/src/foo.ts',
+      }),
+      'to equal',
+      resolve('/project/diagrams/flow.mmd'),
+    );
+  });
+
+  it('should fall back to the base directory without a source file', () => {
+    expect(
+      resolveMermaidInclude('./flow.mmd', { baseDir: '/project' }),
+      'to equal',
+      resolve('/project/flow.mmd'),
+    );
+  });
+});
+
+describe('expandMermaidIncludes', () => {
+  let baseDir: string;
+
+  before(() => {
+    baseDir = mkdtempSync(join(tmpdir(), 'typedoc-plugin-mermaid-'));
+    writeFileSync(join(baseDir, 'flow.mmd'), 'flowchart LR\n  A --> B\n');
+  });
+
+  it('should replace include tags with mermaid code blocks', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'text', text: 'Flow:\n' },
+      { kind: 'inline-tag', tag: '@mermaidInclude', text: 'flow.mmd' },
+    ];
+    const result = expandMermaidIncludes(parts, { baseDir });
+
+    expect(result, 'to equal', [
+      { kind: 'text', text: 'Flow:\n' },
+      { kind: 'code', text: '\n```mermaid\nflowchart LR\n  A --> B\n```\n' },
+    ]);
+  });
+
+  it('should report every file looked up', () => {
+    const files: string[] = [];
+    expandMermaidIncludes(
+      [
+        { kind: 'inline-tag', tag: '@mermaidInclude', text: 'flow.mmd' },
+        { kind: 'inline-tag', tag: '@mermaidInclude', text: 'missing.mmd' },
+      ],
+      { baseDir, onFile: (path) => files.push(path) },
+    );
+
+    expect(files, 'to equal', [
+      join(baseDir, 'flow.mmd'),
+      join(baseDir, 'missing.mmd'),
+    ]);
+  });
+
+  it('should leave tags for missing files in place and report them', () => {
+    const missing: string[] = [];
+    const part: CommentDisplayPart = {
+      kind: 'inline-tag',
+      tag: '@mermaidInclude',
+      text: 'missing.mmd',
+    };
+    const result = expandMermaidIncludes([part], {
+      baseDir,
+      onMissing: (path) => missing.push(path),
+    });
+
+    expect(result, 'to equal', [part]);
+    expect(missing, 'to equal', [join(baseDir, 'missing.mmd')]);
+  });
+
+  it('should leave other inline tags alone', () => {
+    const parts: CommentDisplayPart[] = [
+      { kind: 'inline-tag', tag: '@link', text: 'Foo' },
+    ];
+
+    expect(expandMermaidIncludes(parts, { baseDir }), 'to equal', parts);
+  });
+});
+
+describe('expandAllMermaidIncludes', () => {
+  it("should resolve ./ paths in a document relative to the document's file", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'typedoc-plugin-mermaid-'));
+    mkdirSync(join(dir, 'guides'));
+    writeFileSync(join(dir, 'guides', 'flow.mmd'), 'flowchart LR\n  A --> B\n');
+
+    const project = new ProjectReflection('test', new FileRegistry());
+    const document = new DocumentReflection(
+      'Guide',
+      project,
+      [{ kind: 'inline-tag', tag: '@mermaidInclude', text: './flow.mmd' }],
+      {},
+    );
+    project.addChild(document);
+    project.registerReflection(
+      document,
+      undefined,
+      join(dir, 'guides', 'guide.md').replace(/\\/g, '/') as NormalizedPath,
+    );
+
+    const missing = expandAllMermaidIncludes(project, { baseDir: dir });
+
+    expect(missing, 'to equal', []);
+    expect(document.content, 'to equal', [
+      { kind: 'code', text: '\n```mermaid\nflowchart LR\n  A --> B\n```\n' },
+    ]);
+  });
+});
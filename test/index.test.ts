@@ -1,13 +1,17 @@
 import { expect } from 'bupkis';
-import { JSDOM } from 'jsdom';
+import { type DOMWindow, JSDOM, VirtualConsole } from 'jsdom';
 import { before, describe, it } from 'node:test';
+import { FileRegistry, type Logger, ProjectReflection } from 'typedoc';
 
 import {
   DEFAULT_CDN_URL,
   escapeHtml,
   getRelativeAssetPath,
+  getRuntimeFiles,
   getScript,
+  type MermaidRenderer,
   type MermaidScriptOptions,
+  prerenderMermaidDiagrams,
   processMermaidPage,
   resolveMermaidDistPath,
   toMermaidBlock,
@@ -35,6 +39,69 @@ const localOptions = (
   source: 'local',
 });
 
+/**
+ * Helper to run the Mermaid script on a page, with Mermaid and the browser APIs
+ * jsdom lacks replaced by fakes, and any others replaced by `setup`.
+ */
+const runMermaidScript = (
+  body: string,
+  options: MermaidScriptOptions,
+  setup?: (window: DOMWindow) => void,
+) => {
+  const errors: unknown[][] = [];
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('error', (...args: unknown[]) => errors.push(args));
+  const dom = new JSDOM(`<!DOCTYPE html><html><body>${body}</body></html>`, {
+    runScripts: 'outside-only',
+    virtualConsole,
+  });
+  const renders: string[][] = [];
+  const observed: Element[] = [];
+  const idleCallbacks: (() => void)[] = [];
+  let intersect: (entries: object[]) => void = () => {};
+  Object.assign(dom.window, {
+    IntersectionObserver: class {
+      constructor(callback: typeof intersect) {
+        intersect = callback;
+      }
+
+      observe(el: Element) {
+        observed.push(el);
+      }
+
+      unobserve() {}
+    },
+    matchMedia: () => ({ addEventListener: () => {}, matches: false }),
+    mermaid: {
+      initialize: () => {},
+      render: async (id: string, code: string) => {
+        renders.push([id, code]);
+        if (code.includes('invalid')) {
+          throw new Error('Parse error on line 2');
+        }
+        return { svg: `<svg id="${id}"></svg>` };
+      },
+    },
+    requestIdleCallback: (callback: () => void) => idleCallbacks.push(callback),
+  });
+  setup?.(dom.window);
+  dom.window.eval(
+    getScript(options).replace(/<\/?script[^>]*>|import .*;/g, ''),
+  );
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+  return {
+    document: dom.window.document,
+    errors,
+    idle: () => idleCallbacks.splice(0).forEach((callback) => callback()),
+    intersect: (el: Element) =>
+      intersect([{ isIntersecting: true, target: el }]),
+    observed,
+    renders,
+    settle,
+    window: dom.window,
+  };
+};
+
 describe('escapeHtml', () => {
   it('should escape ampersands', () => {
     expect(escapeHtml('foo & bar'), 'to equal', 'foo &amp; bar');
@@ -146,14 +213,12 @@ describe('mermaid syntax validation', () => {
 });
 
 describe('toMermaidBlock', () => {
-  it('should create a block with dark and light variants', () => {
+  it('should create a block with one diagram for the script to render', () => {
     const result = toMermaidBlock('graph TD\n  A--&gt;B');
 
-    expect(result, 'to contain', '<div class="mermaid-block">');
-    expect(result, 'to contain', '<div class="mermaid dark">');
-    expect(result, 'to contain', '<div class="mermaid light">');
-    expect(result, 'to contain', '%%{init:{"theme":"dark"}}%%');
-    expect(result, 'to contain', '%%{init:{"theme":"default"}}%%');
+    expect(result, 'to contain', '<figure class="mermaid-block"');
+    expect(result, 'to contain', '<div class="mermaid"></div>');
+    expect(result, 'not to contain', '%%{init');
   });
 
   it('should include fallback pre/code block', () => {
@@ -166,8 +231,134 @@ describe('toMermaidBlock', () => {
   it('should trim whitespace from input', () => {
     const result = toMermaidBlock('  graph TD  ');
 
-    // The plain code in mermaid divs should be trimmed
-    expect(result, 'to contain', '%%\ngraph TD</div>');
+    expect(
+      result,
+      'to contain',
+      '<code class="language-mermaid">graph TD</code>',
+    );
+  });
+
+  it('should inline pre-rendered SVGs instead of mermaid code', () => {
+    const prerendered = new Map([
+      [
+        'graph TD\n  A-->B',
+        { dark: '<svg>dark</svg>', light: '<svg>light</svg>' },
+      ],
+    ]);
+    const result = toMermaidBlock('graph TD\n  A--&gt;B', prerendered);
+
+    expect(
+      result,
+      'to contain',
+      '<div class="mermaid-svg dark"><svg>dark</svg>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<div class="mermaid-svg light"><svg>light</svg>',
+    );
+    expect(result, 'not to contain', '<div class="mermaid"');
+    expect(result, 'not to contain', '<pre>');
+  });
+
+  it('should fall back to client rendering for diagrams not pre-rendered', () => {
+    const result = toMermaidBlock('graph TD', new Map());
+
+    expect(result, 'to contain', '<div class="mermaid"></div>');
+  });
+
+  it('should apply block options from the info string', () => {
+    const result = toMermaidBlock(
+      'graph TD',
+      undefined,
+      'title="A &amp; B" theme=neutral height=400 align=center id=flow',
+    );
+
+    expect(
+      result,
+      'to start with',
+      '<figure class="mermaid-block mermaid-align-center" id="flow" style="--mermaid-max-height: 400px"><figcaption class="mermaid-caption">A &amp;amp; B</figcaption>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<div class="mermaid" role="img" aria-label="A &amp;amp; B" data-mermaid-theme="neutral"></div>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<code class="language-mermaid">graph TD</code>',
+    );
+  });
+
+  it('should look up pre-rendered SVGs by the code with its theme override', () => {
+    const prerendered = new Map([
+      [
+        '%%{init:{"theme":"forest"}}%%\ngraph TD',
+        { dark: '<svg>dark</svg>', light: '<svg>light</svg>' },
+      ],
+    ]);
+    const result = toMermaidBlock('graph TD', prerendered, 'theme=forest');
+
+    expect(result, 'to contain', '<svg>dark</svg>');
+  });
+
+  it('should wrap collapsed blocks in a details element', () => {
+    const result = toMermaidBlock(
+      'graph TD',
+      undefined,
+      'title=Flow collapsed',
+    );
+
+    expect(
+      result,
+      'to start with',
+      '<details class="mermaid-details"><summary>Flow</summary><figure class="mermaid-block" id="mermaid-flow">',
+    );
+    expect(result, 'not to contain', 'figcaption');
+  });
+
+  it('should caption the figure and label the diagram from its source', () => {
+    const result = toMermaidBlock(
+      '---\ntitle: Checkout\n---\nflowchart LR\n  accTitle: Checkout steps\n  accDescr: Cart, then payment\n  Cart --&gt; Pay',
+    );
+
+    expect(
+      result,
+      'to start with',
+      '<figure class="mermaid-block" id="mermaid-checkout"><figcaption class="mermaid-caption">Checkout</figcaption>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<p class="mermaid-description" id="mermaid-checkout-description">Cart, then payment</p><div class="mermaid" role="img" aria-label="Checkout steps" aria-describedby="mermaid-checkout-description"></div>',
+    );
+  });
+
+  it('should label a diagram with only a description by its description', () => {
+    const result = toMermaidBlock(
+      'flowchart LR\n  accDescr: Cart, then payment\n  Cart --&gt; Pay',
+    );
+
+    expect(
+      result,
+      'to contain',
+      '<div class="mermaid" role="img" aria-label="Cart, then payment"></div>',
+    );
+    expect(result, 'not to contain', 'mermaid-description');
+  });
+
+  it('should give untitled diagrams a stable id and no caption', () => {
+    const first = toMermaidBlock('graph TD');
+    const second = toMermaidBlock('graph TD');
+
+    expect(first, 'to equal', second);
+    expect(
+      first,
+      'to match',
+      /^<figure class="mermaid-block" id="mermaid-[0-9a-f]{8}">/,
+    );
+    expect(first, 'not to contain', 'role="img"');
   });
 });
 
@@ -177,7 +368,7 @@ describe('transformMermaidBlocks', () => {
       '<pre><code class="mermaid">graph TD</code><button type="button">Copy</button></pre>';
     const result = transformMermaidBlocks(input);
 
-    expect(result, 'to contain', '<div class="mermaid-block">');
+    expect(result, 'to contain', '<figure class="mermaid-block"');
     expect(result, 'not to contain', '<button type="button">Copy</button>');
   });
 
@@ -197,7 +388,7 @@ describe('transformMermaidBlocks', () => {
     `;
     const result = transformMermaidBlocks(input);
 
-    const blockCount = (result.match(/<div class="mermaid-block">/g) || [])
+    const blockCount = (result.match(/<figure class="mermaid-block"/g) || [])
       .length;
     expect(blockCount, 'to equal', 2);
   });
@@ -208,9 +399,49 @@ describe('transformMermaidBlocks', () => {
   B --&gt; C[Done]</code><button>Copy</button></pre>`;
     const result = transformMermaidBlocks(input);
 
-    expect(result, 'to contain', '<div class="mermaid-block">');
+    expect(result, 'to contain', '<figure class="mermaid-block"');
     expect(result, 'to contain', 'A[Start]');
   });
+
+  it('should read block options from the data-mermaid-info attribute', () => {
+    const input =
+      '<pre><code class="mermaid" data-mermaid-info="title=&quot;My flow&quot;">graph TD</code><button type="button">Copy</button></pre>';
+    const result = transformMermaidBlocks(input);
+
+    expect(
+      result,
+      'to contain',
+      '<figcaption class="mermaid-caption">My flow</figcaption>',
+    );
+  });
+
+  it('should number figures and keep their ids unique when requested', () => {
+    const block =
+      '<pre><code class="mermaid">---\ntitle: Flow\n---\ngraph TD</code><button>Copy</button></pre>';
+    const result = transformMermaidBlocks(
+      block +
+        '<pre><code class="mermaid">graph LR</code><button>Copy</button></pre>' +
+        block,
+      undefined,
+      true,
+    );
+
+    expect(
+      result,
+      'to contain',
+      'id="mermaid-flow"><figcaption class="mermaid-caption">Figure 1: Flow</figcaption>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<figcaption class="mermaid-caption">Figure 2</figcaption>',
+    );
+    expect(
+      result,
+      'to contain',
+      'id="mermaid-flow-2"><figcaption class="mermaid-caption">Figure 3: Flow</figcaption>',
+    );
+  });
 });
 
 describe('getRelativeAssetPath', () => {
@@ -237,6 +468,22 @@ describe('getRelativeAssetPath', () => {
       '../../../assets/mermaid/mermaid.esm.min.mjs',
     );
   });
+
+  it('should use the configured asset location', () => {
+    expect(
+      getRelativeAssetPath('classes/Foo.html', { assetDir: 'static/mm' }),
+      'to equal',
+      '../static/mm/mermaid.esm.min.mjs',
+    );
+    expect(
+      getRelativeAssetPath('classes/Foo.html', {
+        assetDir: 'static/mm',
+        baseUrl: 'https://static.example.com/mm/',
+      }),
+      'to equal',
+      'https://static.example.com/mm/mermaid.esm.min.mjs',
+    );
+  });
 });
 
 describe('getScript', () => {
@@ -257,6 +504,286 @@ describe('getScript', () => {
     expect(result, 'to contain', 'mermaid.initialize');
   });
 
+  it('should merge custom configuration with the defaults', () => {
+    const result = getScript({
+      ...cdnOptions(),
+      config: { flowchart: { curve: 'basis' }, fontFamily: 'Inter' },
+    });
+
+    expect(
+      result,
+      'to contain',
+      'mermaid.initialize({"flowchart":{"useMaxWidth":true,"curve":"basis"},"sequence":{"useMaxWidth":true},"fontFamily":"Inter","startOnLoad":false,"suppressErrorRendering":true});',
+    );
+  });
+
+  it('should always disable startOnLoad', () => {
+    const result = getScript({
+      ...cdnOptions(),
+      config: { startOnLoad: true },
+    });
+
+    expect(result, 'to contain', '"startOnLoad":false');
+  });
+
+  it('should embed the init directive of each theme variant', () => {
+    const result = getScript(cdnOptions(), {
+      dark: { theme: 'forest' },
+      light: { theme: 'base', themeVariables: { primaryColor: '#ff0000' } },
+    });
+
+    expect(
+      result,
+      'to contain',
+      'const DIRECTIVES = {"dark":"%%{init:{\\"theme\\":\\"forest\\"}}%%","light":"%%{init:{\\"theme\\":\\"base\\",\\"themeVariables\\":{\\"primaryColor\\":\\"#ff0000\\"}}}%%"};',
+    );
+  });
+
+  it("should theme each variant from the page's CSS when asked", async () => {
+    const colors: Record<string, Record<string, string>> = {
+      dark: { '--color-background': '#101010', '--color-text': 'white' },
+      light: { '--color-background': '#fafafa', '--color-text': 'black' },
+    };
+    const { document, renders, settle } = runMermaidScript(
+      toMermaidBlock('graph TD'),
+      { ...cdnOptions(), cssTheme: true },
+      (window) => {
+        Object.assign(window, {
+          CSS: { supports: (_: string, value: string) => value !== 'black' },
+          getComputedStyle: () => ({
+            getPropertyValue: (property: string) =>
+              colors[window.document.documentElement.dataset['theme']!]?.[
+                property
+              ] ?? '',
+          }),
+        });
+        // The canvas normalizes colors; here, only named ones
+        window.HTMLCanvasElement.prototype.getContext = (() => {
+          let fillStyle = '';
+          return {
+            get fillStyle() {
+              return fillStyle;
+            },
+            set fillStyle(value: string) {
+              fillStyle = value === 'white' ? '#ffffff' : value;
+            },
+          };
+        }) as never;
+        window.document.documentElement.dataset['theme'] = 'light';
+      },
+    );
+
+    await settle();
+    document.documentElement.dataset['theme'] = 'dark';
+    await settle();
+
+    expect(
+      renders.map(([, code]) => code!.split('\n')[0]),
+      'to equal',
+      [
+        '%%{init:{"theme":"base","themeVariables":{"darkMode":false,"background":"#fafafa","edgeLabelBackground":"#fafafa","tertiaryColor":"#fafafa"}}}%%',
+        '%%{init:{"theme":"base","themeVariables":{"darkMode":true,"background":"#101010","edgeLabelBackground":"#101010","primaryTextColor":"#ffffff","tertiaryColor":"#101010","textColor":"#ffffff","titleColor":"#ffffff"}}}%%',
+      ],
+    );
+  });
+
+  it('should render each diagram once per theme variant shown', async () => {
+    const block = toMermaidBlock(
+      '---\ntitle: Flow\n---\ngraph TD',
+      undefined,
+      'theme=neutral',
+    );
+    const { document, renders, settle } = runMermaidScript(block, cdnOptions());
+
+    await settle();
+    document.documentElement.dataset['theme'] = 'dark';
+    await settle();
+    document.documentElement.dataset['theme'] = 'light';
+    await settle();
+
+    expect(renders, 'to equal', [
+      [
+        'mermaid-flow-light',
+        '---\ntitle: Flow\n---\n%%{init:{"theme":"default"}}%%\n%%{init:{"theme":"neutral"}}%%\ngraph TD',
+      ],
+      [
+        'mermaid-flow-dark',
+        '---\ntitle: Flow\n---\n%%{init:{"theme":"dark"}}%%\n%%{init:{"theme":"neutral"}}%%\ngraph TD',
+      ],
+    ]);
+    expect(
+      document.querySelector('.mermaid')!.innerHTML,
+      'to equal',
+      '<svg id="mermaid-flow-light"></svg>',
+    );
+  });
+
+  it('should show an error in place of a diagram which fails to render', async () => {
+    const blocks =
+      toMermaidBlock('graph TD\n  invalid &lt;&gt;', undefined, 'id=broken') +
+      toMermaidBlock('graph LR', undefined, 'id=working');
+    const { document, errors, settle } = runMermaidScript(blocks, cdnOptions());
+
+    await settle();
+    const error = document.querySelector('#broken .mermaid-error')!;
+    expect(error.getAttribute('role'), 'to equal', 'alert');
+    expect(
+      error.querySelector('p')!.textContent,
+      'to equal',
+      'This diagram failed to render: Parse error on line 2',
+    );
+    expect(
+      error.querySelector('pre')!.innerHTML,
+      'to equal',
+      '<code class="language-mermaid">graph TD\n  invalid &lt;&gt;</code>',
+    );
+    expect(
+      document.querySelector('#working .mermaid')!.innerHTML,
+      'to equal',
+      '<svg id="working-light"></svg>',
+    );
+    expect(errors.length, 'to equal', 1);
+    expect(
+      errors[0]![0],
+      'to equal',
+      '[typedoc-plugin-mermaid] Diagram 0 (#broken) failed to render:',
+    );
+  });
+
+  it('should render lazily as diagrams approach the viewport', async () => {
+    const blocks =
+      toMermaidBlock('graph TD', undefined, 'id=first') +
+      toMermaidBlock('graph LR', undefined, 'id=second') +
+      toMermaidBlock('graph BT', undefined, 'id=third');
+    const { intersect, observed, renders, settle, window } = runMermaidScript(
+      blocks,
+      { ...cdnOptions(), lazy: true },
+    );
+
+    await settle();
+    expect(renders, 'to equal', []);
+
+    intersect(observed[1]!);
+    await settle();
+    expect(
+      renders.map(([id]) => id),
+      'to equal',
+      ['second-light'],
+    );
+
+    window.dispatchEvent(new window.Event('beforeprint'));
+    await settle();
+    expect(
+      renders.map(([id]) => id),
+      'to equal',
+      ['second-light', 'first-light', 'third-light'],
+    );
+  });
+
+  it('should render pending diagrams one at a time while the browser is idle', async () => {
+    const blocks =
+      toMermaidBlock('graph TD', undefined, 'id=first') +
+      toMermaidBlock('graph LR', undefined, 'id=second');
+    const { document, idle, renders, settle } = runMermaidScript(blocks, {
+      ...cdnOptions(),
+      lazy: true,
+    });
+
+    await settle();
+    expect(renders, 'to equal', []);
+
+    idle();
+    await settle();
+    expect(
+      renders.map(([id]) => id),
+      'to equal',
+      ['first-light'],
+    );
+
+    idle();
+    await settle();
+    expect(
+      renders.map(([id]) => id),
+      'to equal',
+      ['first-light', 'second-light'],
+    );
+    expect(
+      document.querySelector('#second > .mermaid')!.innerHTML,
+      'to equal',
+      '<svg id="second-light"></svg>',
+    );
+  });
+
+  it('should render pending diagrams when the print media query matches', async () => {
+    let onPrint: (event: { matches: boolean }) => void = () => {};
+    const blocks =
+      toMermaidBlock('graph TD', undefined, 'id=first') +
+      toMermaidBlock('graph LR', undefined, 'id=second');
+    const { renders, settle } = runMermaidScript(
+      blocks,
+      { ...cdnOptions(), lazy: true },
+      (window) => {
+        window.matchMedia = ((query: string) => ({
+          addEventListener: (
+            _: string,
+            listener: (event: { matches: boolean }) => void,
+          ) => {
+            if (query === 'print') {
+              onPrint = listener;
+            }
+          },
+          matches: false,
+        })) as unknown as typeof window.matchMedia;
+      },
+    );
+
+    onPrint({ matches: false });
+    await settle();
+    expect(renders, 'to equal', []);
+
+    onPrint({ matches: true });
+    await settle();
+    expect(
+      renders.map(([id]) => id),
+      'to equal',
+      ['first-light', 'second-light'],
+    );
+  });
+
+  it('should print the code of diagrams not rendered in time', () => {
+    const result = processMermaidPage(
+      `<html><head></head><body>${toMermaidBlock('graph TD')}</body></html>`,
+      { ...cdnOptions(), lazy: true },
+    );
+
+    expect(
+      result,
+      'to match',
+      /@media print \{\s*\.mermaid-block > \.mermaid:empty \{\s*display: none;\s*\}\s*:root\.mermaid-enabled \.mermaid-block > \.mermaid:empty \+ pre \{\s*display: block;/,
+    );
+  });
+
+  it('should preload the CDN build to verify its integrity', () => {
+    const result = getScript({ ...cdnOptions(), integrity: 'sha384-abc' });
+
+    expect(
+      result,
+      'to contain',
+      `<link rel="modulepreload" href="${DEFAULT_CDN_URL}" integrity="sha384-abc" crossorigin="anonymous">`,
+    );
+    expect(
+      result.indexOf('modulepreload'),
+      'to be less than',
+      result.indexOf('import mermaid'),
+    );
+  });
+
+  it('should not preload the local build', () => {
+    const result = getScript({ ...localOptions(), integrity: 'sha384-abc' });
+
+    expect(result, 'not to contain', 'modulepreload');
+  });
+
   it('should use custom CDN URL in CDN mode', () => {
     const customUrl = 'https://example.com/mermaid.esm.min.mjs';
     const result = getScript(cdnOptions(customUrl));
@@ -270,6 +797,30 @@ describe('getScript', () => {
 
     expect(result, 'to contain', `import mermaid from "${localPath}"`);
   });
+
+  it('should register extensions relative to the page before rendering', () => {
+    const result = getScript({
+      ...localOptions('../assets/mermaid/mermaid.esm.min.mjs'),
+      extensions: {
+        diagrams: [],
+        iconPacks: [],
+        layouts: [
+          { copy: [{ from: '/elk.mjs', to: 'elk.mjs' }], url: 'elk.mjs' },
+        ],
+      },
+    });
+
+    expect(
+      result,
+      'to contain',
+      'import mermaidLayouts0 from "../assets/mermaid/elk.mjs";',
+    );
+    expect(
+      result.indexOf('registerLayoutLoaders'),
+      'to be less than',
+      result.indexOf('mermaid.initialize'),
+    );
+  });
 });
 
 describe('resolveMermaidDistPath', () => {
@@ -282,10 +833,68 @@ describe('resolveMermaidDistPath', () => {
       expect(result.distPath, 'to end with', 'dist');
       expect(result.distPath, 'to contain', 'node_modules');
       expect(result.distPath, 'to contain', 'mermaid');
+      expect(result.version, 'to match', /^\d+\.\d+\.\d+/);
     }
   });
 });
 
+describe('prerenderMermaidDiagrams', () => {
+  it('should render each diagram in both variants', async () => {
+    const calls: string[] = [];
+    const renderer: MermaidRenderer = {
+      render: async (id, code) => {
+        calls.push(code);
+        return `<svg id="${id}"></svg>`;
+      },
+    };
+
+    const project = new ProjectReflection('test', new FileRegistry());
+    const result = await prerenderMermaidDiagrams(renderer, [
+      { code: 'graph TD', reflection: project },
+      { code: 'graph TD', reflection: project },
+    ]);
+
+    expect(result.size, 'to equal', 1);
+    expect(calls, 'to equal', [
+      '%%{init:{"theme":"dark"}}%%\ngraph TD',
+      '%%{init:{"theme":"default"}}%%\ngraph TD',
+    ]);
+    expect(result.get('graph TD')?.dark, 'to contain', '-dark"');
+    expect(result.get('graph TD')?.light, 'to contain', '-light"');
+  });
+
+  it('should leave out diagrams which fail to render, naming where they are', async () => {
+    const renderer: MermaidRenderer = {
+      render: async (id, code) => {
+        if (code.includes('broken')) {
+          throw new Error('Parse error');
+        }
+        return `<svg id="${id}"></svg>`;
+      },
+    };
+    const warnings: string[] = [];
+    const logger = {
+      warn: (message: string) => warnings.push(message),
+    } as unknown as Logger;
+
+    const project = new ProjectReflection('test', new FileRegistry());
+    const result = await prerenderMermaidDiagrams(
+      renderer,
+      [
+        { code: 'graph TD', reflection: project },
+        { code: 'broken', reflection: project },
+      ],
+      logger,
+    );
+
+    expect(result.has('graph TD'), 'to be true');
+    expect(result.has('broken'), 'to be false');
+    expect(warnings, 'to equal', [
+      '[typedoc-plugin-mermaid] Failed to pre-render diagram in test, falling back to client-side rendering: Parse error',
+    ]);
+  });
+});
+
 describe('processMermaidPage', () => {
   it('should inject styles and scripts when mermaid blocks exist', () => {
     const input = `<!DOCTYPE html>
@@ -348,9 +957,8 @@ describe('processMermaidPage', () => {
 </body></html>`;
     const result = processMermaidPage(input, cdnOptions());
 
-    expect(result, 'to contain', '<div class="mermaid-block">');
-    expect(result, 'to contain', '<div class="mermaid dark">');
-    expect(result, 'to contain', '<div class="mermaid light">');
+    expect(result, 'to contain', '<figure class="mermaid-block"');
+    expect(result, 'to contain', '<div class="mermaid"></div>');
   });
 
   it('should use the default CDN URL in CDN mode', () => {
@@ -404,4 +1012,172 @@ describe('processMermaidPage', () => {
 
     expect(result, 'to contain', `import mermaid from "${localPath}"`);
   });
+
+  it('should not inject the script when every diagram was pre-rendered', () => {
+    const input = `<html><head></head><body>
+<pre><code class="mermaid">graph TD</code><button>Copy</button></pre>
+</body></html>`;
+    const prerendered = new Map([
+      ['graph TD', { dark: '<svg></svg>', light: '<svg></svg>' }],
+    ]);
+    const result = processMermaidPage(input, cdnOptions(), prerendered);
+
+    expect(result, 'to contain', '<style>');
+    expect(result, 'to contain', '<div class="mermaid-svg dark">');
+    expect(result, 'not to contain', '<script type="module">');
+  });
+
+  it('should inject the viewer even when every diagram was pre-rendered', () => {
+    const html =
+      '<html><head></head><body><pre><code class="mermaid">graph TD</code><button>Copy</button></pre></body></html>';
+    const prerendered = new Map([
+      ['graph TD', { dark: '<svg>dark</svg>', light: '<svg>light</svg>' }],
+    ]);
+    const result = processMermaidPage(
+      html,
+      { ...cdnOptions(), viewer: { collapseHeight: 0, controls: true } },
+      prerendered,
+    );
+
+    expect(result, 'to contain', '.mermaid-toolbar');
+    expect(result, 'to contain', 'const CONTROLS = true;');
+    expect(result, 'not to contain', 'import mermaid');
+  });
+
+  it('should inject the toolbar even when every diagram was pre-rendered', () => {
+    const html =
+      '<html><head></head><body><pre><code class="mermaid">graph TD</code><button>Copy</button></pre></body></html>';
+    const prerendered = new Map([
+      ['graph TD', { dark: '<svg>dark</svg>', light: '<svg>light</svg>' }],
+    ]);
+    const result = processMermaidPage(
+      html,
+      { ...cdnOptions(), toolbar: ['copy', 'svg'] },
+      prerendered,
+    );
+
+    expect(result, 'to contain', '.mermaid-toolbar');
+    expect(result, 'to contain', 'const ACTIONS = ["copy","svg"];');
+    expect(
+      result,
+      'to contain',
+      '<template class="mermaid-source">graph TD</template>',
+    );
+    expect(result, 'not to contain', 'import mermaid');
+  });
+
+  it('should inject the script when some diagrams were not pre-rendered', () => {
+    const input = `<html><head></head><body>
+<pre><code class="mermaid">graph TD</code><button>Copy</button></pre>
+<pre><code class="mermaid">graph LR</code><button>Copy</button></pre>
+</body></html>`;
+    const prerendered = new Map([
+      ['graph TD', { dark: '<svg></svg>', light: '<svg></svg>' }],
+    ]);
+    const result = processMermaidPage(input, cdnOptions(), prerendered);
+
+    expect(result, 'to contain', '<div class="mermaid-svg dark">');
+    expect(result, 'to contain', '<div class="mermaid"></div>');
+    expect(result, 'to contain', '<script type="module">');
+  });
+
+  it('should load styles and scripts from files when given a runtime URL', () => {
+    const input = `<html><head></head><body>
+<pre><code class="mermaid">graph TD</code><button>Copy</button></pre>
+</body></html>`;
+    const result = processMermaidPage(input, {
+      ...cdnOptions(),
+      runtimeUrl: '../assets/mermaid/',
+      toolbar: ['copy'],
+    });
+
+    expect(
+      result,
+      'to contain',
+      '<link rel="stylesheet" href="../assets/mermaid/mermaid.css">',
+    );
+    expect(
+      result,
+      'to contain',
+      '<script type="module" src="../assets/mermaid/mermaid-init.mjs"></script>',
+    );
+    expect(
+      result,
+      'to contain',
+      '<script type="module" src="../assets/mermaid/mermaid-toolbar.mjs"></script>',
+    );
+    expect(result, 'not to contain', '<style>');
+    expect(result, 'not to contain', 'import mermaid');
+  });
+
+  it('should add the nonce to each element it adds', () => {
+    const input = `<html><head></head><body>
+<pre><code class="mermaid">graph TD</code><button>Copy</button></pre>
+</body></html>`;
+    const result = processMermaidPage(input, {
+      ...cdnOptions(),
+      integrity: 'sha384-abc',
+      nonce: 'r4nd0m',
+    });
+
+    expect(result, 'to contain', '<style nonce="r4nd0m">');
+    expect(result, 'to contain', '<script nonce="r4nd0m" type="module">');
+    expect(result, 'to contain', '<link nonce="r4nd0m" rel="modulepreload"');
+  });
+});
+
+describe('getRuntimeFiles', () => {
+  it('should write the styles and a module for each script', () => {
+    const files = getRuntimeFiles(
+      {
+        ...localOptions('../assets/mermaid/mermaid.esm.min.mjs'),
+        toolbar: ['copy'],
+      },
+      undefined,
+      '.mermaid-index-list { display: grid; }',
+    );
+
+    expect([...files.keys()].sort(), 'to equal', [
+      'mermaid-init.mjs',
+      'mermaid-toolbar.mjs',
+      'mermaid.css',
+    ]);
+    expect(
+      files.get('mermaid-init.mjs'),
+      'to start with',
+      'import mermaid from "./mermaid.esm.min.mjs";',
+    );
+    expect(files.get('mermaid-init.mjs'), 'not to contain', '<script');
+    expect(files.get('mermaid.css'), 'to contain', '.mermaid-toolbar');
+    expect(
+      files.get('mermaid.css'),
+      'to contain',
+      '.mermaid-index-list { display: grid; }',
+    );
+    expect(files.get('mermaid.css'), 'not to contain', '<style>');
+  });
+
+  it('should fetch icon packs relative to the module rather than the page', () => {
+    const files = getRuntimeFiles({
+      ...localOptions('../../assets/mermaid/mermaid.esm.min.mjs'),
+      extensions: {
+        diagrams: [],
+        iconPacks: [
+          {
+            copy: [{ from: '/icons/logos.json', to: 'icons/logos.json' }],
+            name: 'logos',
+            url: 'icons/logos.json',
+          },
+        ],
+        layouts: [],
+      },
+    });
+    const module = files.get('mermaid-init.mjs')!;
+
+    expect(
+      module,
+      'to contain',
+      'fetch(new URL("./icons/logos.json", import.meta.url))',
+    );
+  });
 });
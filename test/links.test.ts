@@ -0,0 +1,34 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import { FileRegistry, ProjectReflection } from 'typedoc';
+
+import {
+  resolveReflectionPlaceholders,
+  toReflectionPlaceholder,
+} from '../src/links.js';
+
+describe('resolveReflectionPlaceholders', () => {
+  it('should replace placeholders with resolved URLs', () => {
+    const project = new ProjectReflection('test', new FileRegistry());
+    const html = `<a href="${toReflectionPlaceholder(project)}">x</a>`;
+
+    expect(
+      resolveReflectionPlaceholders(html, (id) =>
+        id === project.id ? '../index.html' : undefined,
+      ),
+      'to equal',
+      '<a href="../index.html">x</a>',
+    );
+  });
+
+  it('should fall back to # for unresolvable reflections', () => {
+    expect(
+      resolveReflectionPlaceholders(
+        'click A href "__typedoc_ref_42__"',
+        () => undefined,
+      ),
+      'to equal',
+      'click A href "#"',
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { expect } from 'bupkis';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  DeclarationReflection,
+  FileRegistry,
+  type NormalizedPath,
+  ProjectReflection,
+  ReflectionKind,
+  SourceReference,
+} from 'typedoc';
+
+import {
+  buildMermaidManifest,
+  getDiagramHash,
+  MANIFEST_FILE,
+  type ProcessedDiagram,
+  summarizeMermaidManifest,
+  writeMermaidManifest,
+} from '../src/manifest.js';
+
+/**
+ * Helper to create diagrams on a class page and the project index, with one
+ * diagram on both.
+ */
+const createDiagrams = (): ProcessedDiagram[] => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const money = new DeclarationReflection(
+    'Money',
+    ReflectionKind.Class,
+    project,
+  );
+  money.sources = [
+    new SourceReference('src/money.ts' as NormalizedPath, 12, 1),
+  ];
+  project.registerReflection(money, undefined, undefined);
+  project.addChild(money);
+
+  return [
+    {
+      anchor: 'mermaid-flow',
+      code: 'graph TD\n  A --> B',
+      pageUrl: 'classes/Money.html',
+      reflection: money,
+      title: 'Flow',
+    },
+    {
+      anchor: 'mermaid-1234abcd',
+      code: 'sequenceDiagram\n  A->>B: hi',
+      pageUrl: 'classes/Money.html',
+      reflection: money,
+    },
+    {
+      code: 'graph TD\n  A --> B',
+      pageUrl: 'index.md',
+      reflection: project,
+    },
+  ];
+};
+
+describe('getDiagramHash', () => {
+  it('should hash code the same way every time', () => {
+    expect(getDiagramHash('graph TD'), 'to equal', getDiagramHash('graph TD'));
+    expect(getDiagramHash('graph TD'), 'to match', /^[0-9a-f]{12}$/);
+    expect(
+      getDiagramHash('graph TD'),
+      'not to equal',
+      getDiagramHash('graph LR'),
+    );
+  });
+});
+
+describe('buildMermaidManifest', () => {
+  it('should describe each diagram, its page and its reflection', () => {
+    const hash = getDiagramHash('graph TD\n  A --> B');
+    const { diagrams } = buildMermaidManifest(createDiagrams());
+
+    expect(diagrams[0], 'to equal', {
+      anchor: 'mermaid-flow',
+      file: `mermaid-sources/${hash}.mmd`,
+      hash,
+      kind: 'Class',
+      page: 'classes/Money.html',
+      reflection: 'Money',
+      source: { file: 'src/money.ts', line: 12 },
+      title: 'Flow',
+      type: 'graph',
+    });
+    expect(diagrams[2]!.kind, 'to equal', 'Project');
+    expect(diagrams[2]!.source, 'to be undefined');
+    expect(diagrams[2]!.file, 'to equal', diagrams[0]!.file);
+  });
+});
+
+describe('writeMermaidManifest', () => {
+  it('should write the manifest and each source once', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mermaid-manifest-'));
+    try {
+      const manifest = await writeMermaidManifest(createDiagrams(), dir);
+
+      expect(
+        JSON.parse(await readFile(join(dir, MANIFEST_FILE), 'utf8')),
+        'to equal',
+        JSON.parse(JSON.stringify(manifest)),
+      );
+      expect(
+        (await readdir(join(dir, 'mermaid-sources'))).length,
+        'to equal',
+        2,
+      );
+      expect(
+        await readFile(join(dir, manifest.diagrams[1]!.file), 'utf8'),
+        'to equal',
+        'sequenceDiagram\n  A->>B: hi\n',
+      );
+    } finally {
+      await rm(dir, { force: true, recursive: true });
+    }
+  });
+});
+
+describe('summarizeMermaidManifest', () => {
+  it('should count diagrams per page and per type', () => {
+    expect(
+      summarizeMermaidManifest(buildMermaidManifest(createDiagrams())),
+      'to equal',
+      [
+        'Diagrams per page: classes/Money.html (2), index.md (1)',
+        'Diagrams per type: graph (2), sequenceDiagram (1)',
+      ],
+    );
+  });
+});
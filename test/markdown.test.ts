@@ -0,0 +1,183 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import { FileRegistry, type Logger, ProjectReflection } from 'typedoc';
+
+import {
+  isMarkdownPage,
+  normalizeMermaidFences,
+  renderMermaidImages,
+  replaceMermaidFences,
+  replaceMermaidFencesWithImages,
+} from '../src/markdown.js';
+
+/**
+ * A page as typedoc-plugin-markdown writes it, with a fence carrying options
+ * and an indented fence in a list.
+ */
+const PAGE = [
+  '# Class: Money',
+  '',
+  '```mermaid title="Cost in $" theme=forest height=300',
+  'graph TD',
+  '  A --> B',
+  '```',
+  '',
+  '- In a list:',
+  '',
+  '  ~~~mermaid',
+  '  sequenceDiagram',
+  '    A->>B: hi',
+  '  ~~~',
+  '',
+  '```ts',
+  'const notMermaid = true;',
+  '```',
+].join('\n');
+
+describe('isMarkdownPage', () => {
+  it('should recognize Markdown and MDX pages', () => {
+    expect(isMarkdownPage('classes/Money.md'), 'to be true');
+    expect(isMarkdownPage('classes/Money.mdx'), 'to be true');
+    expect(isMarkdownPage('classes/Money.html'), 'to be false');
+  });
+});
+
+describe('replaceMermaidFences', () => {
+  it('should pass each fence with its code and options', () => {
+    const fences: unknown[] = [];
+    replaceMermaidFences(PAGE, (fence) => void fences.push(fence));
+
+    expect(fences, 'to equal', [
+      {
+        code: 'graph TD\n  A --> B',
+        options: { height: '300px', theme: 'forest', title: 'Cost in $' },
+      },
+      { code: 'sequenceDiagram\n  A->>B: hi', options: {} },
+    ]);
+  });
+
+  it('should keep fences it is given no replacement for', () => {
+    expect(
+      replaceMermaidFences(PAGE, () => undefined),
+      'to equal',
+      PAGE,
+    );
+  });
+
+  it('should indent replacements like the fence', () => {
+    const result = replaceMermaidFences(PAGE, () => 'one\n\ntwo');
+
+    expect(result, 'to contain', '- In a list:\n\n  one\n\n  two\n');
+  });
+});
+
+describe('normalizeMermaidFences', () => {
+  it('should write plain fences with the theme folded in and the title above', () => {
+    const result = normalizeMermaidFences(PAGE);
+
+    expect(
+      result,
+      'to contain',
+      [
+        '**Cost in \\$**',
+        '',
+        '```mermaid',
+        '%%{init:{"theme":"forest"}}%%',
+        'graph TD',
+        '  A --> B',
+        '```',
+      ].join('\n'),
+    );
+    expect(
+      result,
+      'to contain',
+      '  ```mermaid\n  sequenceDiagram\n    A->>B: hi\n  ```',
+    );
+    expect(result, 'not to contain', 'height');
+  });
+
+  it('should escape titles for both Markdown math and MDX', () => {
+    const page = '```mermaid title="{cost} in $"\ngraph TD\n```';
+
+    expect(
+      normalizeMermaidFences(page),
+      'to start with',
+      '**\\{cost\\} in \\$**',
+    );
+  });
+
+  it('should use a fence longer than any in the code', () => {
+    const page = '~~~mermaid\ngraph TD\n```\n~~~';
+
+    expect(
+      normalizeMermaidFences(page),
+      'to equal',
+      '````mermaid\ngraph TD\n```\n````',
+    );
+  });
+});
+
+describe('replaceMermaidFencesWithImages', () => {
+  it('should replace rendered diagrams with images', () => {
+    const urls = new Map([
+      ['%%{init:{"theme":"forest"}}%%\ngraph TD\n  A --> B', 'mermaid-1.svg'],
+    ]);
+    const result = replaceMermaidFencesWithImages(PAGE, (code) =>
+      urls.get(code),
+    );
+
+    expect(
+      result,
+      'to contain',
+      '**Cost in \\$**\n\n![Cost in \\$](mermaid-1.svg)',
+    );
+    expect(result, 'to contain', '  ~~~mermaid\n  sequenceDiagram');
+  });
+
+  it('should describe images by their accessible title', () => {
+    const page = '```mermaid\ngraph TD\n  accTitle: Money flow\n  A --> B\n```';
+
+    expect(
+      replaceMermaidFencesWithImages(page, () => 'mermaid-1.svg'),
+      'to equal',
+      '![Money flow](mermaid-1.svg)',
+    );
+  });
+});
+
+describe('renderMermaidImages', () => {
+  it('should render each diagram once in the theme, leaving out failures', async () => {
+    const rendered: string[] = [];
+    const warnings: string[] = [];
+    const logger = {
+      warn: (message: string) => warnings.push(message),
+    } as unknown as Logger;
+    const project = new ProjectReflection('test', new FileRegistry());
+    const images = await renderMermaidImages(
+      {
+        render: async (id, code) => {
+          rendered.push(code);
+          if (code.includes('invalid')) {
+            throw new Error('Parse error');
+          }
+          return `<svg id="${id}"></svg>`;
+        },
+      },
+      ['graph TD', 'graph TD', 'invalid'].map((code) => ({
+        code,
+        reflection: project,
+      })),
+      { theme: 'neutral' },
+      logger,
+    );
+
+    expect(rendered, 'to equal', [
+      '%%{init:{"theme":"neutral"}}%%\ngraph TD',
+      '%%{init:{"theme":"neutral"}}%%\ninvalid',
+    ]);
+    expect([...images.keys()], 'to equal', ['graph TD']);
+    expect(warnings, 'to equal', [
+      '[typedoc-plugin-mermaid] Failed to render diagram in test for Markdown output, keeping its code: Parse error',
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+
+import { createHeadlessRenderer, runHeadlessMermaid } from '../src/renderer.js';
+
+describe('createHeadlessRenderer', () => {
+  it('should render diagrams to SVG', async () => {
+    const renderer = await createHeadlessRenderer();
+
+    const testCases = [
+      'flowchart TD\n  A[Start] --> B{Decision}\n  B -->|Yes| C[End]',
+      'sequenceDiagram\n  A->>B: Hello\n  B-->>A: Hi',
+      'stateDiagram-v2\n  [*] --> Idle\n  Idle --> Running',
+      'erDiagram\n  USER ||--o{ ORDER : places\n  USER {\n    int id PK\n  }',
+    ];
+
+    for (const [index, code] of testCases.entries()) {
+      const svg = await renderer.render(`test-${index}`, code);
+
+      expect(svg, 'to contain', `<svg id="test-${index}"`);
+      expect(svg, 'to end with', '</svg>');
+    }
+  });
+
+  it('should apply the theme from the init directive', async () => {
+    const renderer = await createHeadlessRenderer();
+
+    const dark = await renderer.render(
+      'test-theme',
+      '%%{init:{"theme":"dark"}}%%\ngraph TD\n  A --> B',
+    );
+    const light = await renderer.render(
+      'test-theme',
+      '%%{init:{"theme":"default"}}%%\ngraph TD\n  A --> B',
+    );
+
+    expect(dark, 'not to equal', light);
+  });
+
+  it('should remove the browser globals after rendering', async () => {
+    const renderer = await createHeadlessRenderer();
+
+    await renderer.render('test-globals', 'graph TD\n  A --> B');
+
+    expect('window' in globalThis, 'to be false');
+    expect('document' in globalThis, 'to be false');
+  });
+
+  it('should reject invalid diagrams', async () => {
+    const renderer = await createHeadlessRenderer();
+
+    let renderError: Error | undefined;
+    try {
+      await renderer.render(
+        'test-invalid',
+        'stateDiagram-v2\n  [*] --#gt; Idle',
+      );
+    } catch (err) {
+      renderError = err as Error;
+    }
+
+    expect(renderError, 'to be defined');
+  });
+});
+
+describe('runHeadlessMermaid', () => {
+  it('should run calls one at a time', async () => {
+    const events: string[] = [];
+    const call = (name: string) =>
+      runHeadlessMermaid(async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([call('a'), call('b')]);
+
+    expect(events, 'to equal', ['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('should run calls queued after a failed call', async () => {
+    const failed = runHeadlessMermaid(() => {
+      throw new Error('failed');
+    });
+    const next = runHeadlessMermaid(() => 'next');
+
+    let callError: Error | undefined;
+    try {
+      await failed;
+    } catch (err) {
+      callError = err as Error;
+    }
+
+    expect(callError?.message, 'to equal', 'failed');
+    expect(await next, 'to equal', 'next');
+  });
+
+  it('should remove the browser globals between calls', async () => {
+    let inside = false;
+    await runHeadlessMermaid(() => {
+      inside = 'window' in globalThis;
+    });
+
+    expect(inside, 'to be true');
+    expect('window' in globalThis, 'to be false');
+  });
+});
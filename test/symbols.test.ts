@@ -0,0 +1,191 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import {
+  Comment,
+  DeclarationReflection,
+  FileRegistry,
+  ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+} from 'typedoc';
+
+import {
+  linkAllMermaidSymbols,
+  linkDiagramSymbols,
+  linkMermaidSymbols,
+  type MermaidLinkTarget,
+} from '../src/symbols.js';
+
+/**
+ * Helper to create a project with two classes, one with a method.
+ */
+const createProject = () => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const add = (
+    name: string,
+    kind: ReflectionKind,
+    parent: DeclarationReflection | ProjectReflection,
+  ) => {
+    const child = new DeclarationReflection(name, kind, parent);
+    parent.addChild(child);
+    project.registerReflection(child, undefined, undefined);
+    return child;
+  };
+
+  const orders = add('OrderService', ReflectionKind.Class, project);
+  const save = add('save', ReflectionKind.Method, orders);
+  const payments = add('PaymentGateway', ReflectionKind.Class, project);
+
+  return { orders, payments, project, save };
+};
+
+/**
+ * Helper to resolve links by full name, or as URLs.
+ */
+const createResolver = (project: ProjectReflection) => {
+  const targets = new Map<string, Reflection>(
+    Object.values(project.reflections).map((reflection) => [
+      reflection.getFullName(),
+      reflection,
+    ]),
+  );
+  return (target: string): MermaidLinkTarget | undefined =>
+    target.startsWith('https://') ? target : targets.get(target);
+};
+
+describe('linkDiagramSymbols', () => {
+  const { orders, payments, project, save } = createProject();
+  const resolve = createResolver(project);
+
+  it('should resolve links in click statements', () => {
+    expect(
+      linkDiagramSymbols(
+        'flowchart LR\n  A --> B\n  click A "{@link OrderService.save}" "Save"\n  click B href "{@link https://example.com}"',
+        resolve,
+      ),
+      'to equal',
+      `flowchart LR\n  A --> B\n  click A "__typedoc_ref_${save.id}__" "Save"\n  click B href "https://example.com"`,
+    );
+  });
+
+  it('should link nodes whose labels contain links', () => {
+    expect(
+      linkDiagramSymbols(
+        'flowchart LR\n  A["{@link OrderService | Orders}"] --> B[{@link PaymentGateway}]',
+        resolve,
+      ),
+      'to equal',
+      `flowchart LR\n  A["Orders"] --> B[PaymentGateway]\n  click A href "__typedoc_ref_${orders.id}__"\n  click B href "__typedoc_ref_${payments.id}__"`,
+    );
+  });
+
+  it("should keep a node's own click statement", () => {
+    expect(
+      linkDiagramSymbols(
+        'flowchart LR\n  A[{@link OrderService}]\n  click A "https://example.com"',
+        resolve,
+      ),
+      'to equal',
+      'flowchart LR\n  A[OrderService]\n  click A "https://example.com"',
+    );
+  });
+
+  it('should only replace links with text in diagrams without click statements', () => {
+    expect(
+      linkDiagramSymbols(
+        'sequenceDiagram\n  A->>B: calls {@link OrderService.save}',
+        resolve,
+      ),
+      'to equal',
+      'sequenceDiagram\n  A->>B: calls OrderService.save',
+    );
+  });
+
+  it('should report unresolved links and drop their click statements', () => {
+    const unresolved: string[] = [];
+
+    expect(
+      linkDiagramSymbols(
+        'flowchart LR\n  A[{@link Nope}]\n  click A "{@link AlsoNope}"',
+        resolve,
+        { onUnresolved: (target) => unresolved.push(target) },
+      ),
+      'to equal',
+      'flowchart LR\n  A[Nope]',
+    );
+    expect(unresolved, 'to equal', ['Nope', 'AlsoNope']);
+  });
+
+  it('should link node ids named after exported symbols when asked', () => {
+    const code =
+      'flowchart LR\n  OrderService -->|save| PaymentGateway\n  PaymentGateway --> save["OrderService"]';
+
+    expect(
+      linkDiagramSymbols(code, resolve, { autoLink: true }),
+      'to equal',
+      `${code}\n  click OrderService href "__typedoc_ref_${orders.id}__"\n  click PaymentGateway href "__typedoc_ref_${payments.id}__"`,
+    );
+    expect(linkDiagramSymbols(code, resolve), 'to equal', code);
+  });
+});
+
+describe('linkMermaidSymbols', () => {
+  it('should only change Mermaid blocks', () => {
+    const { orders, project } = createProject();
+    const parts = [
+      { kind: 'text' as const, text: 'See {@link OrderService}' },
+      {
+        kind: 'code' as const,
+        text: '```ts\nconst a = "{@link OrderService}";\n```',
+      },
+      {
+        kind: 'code' as const,
+        text: '```mermaid\nflowchart LR\n  A[{@link OrderService}]\n```',
+      },
+    ];
+    const linked = linkMermaidSymbols(parts, createResolver(project));
+
+    expect(linked[0], 'to equal', parts[0]);
+    expect(linked[1], 'to equal', parts[1]);
+    expect(
+      linked[2]!.text,
+      'to equal',
+      `\`\`\`mermaid\nflowchart LR\n  A[OrderService]\n  click A href "__typedoc_ref_${orders.id}__"\n\`\`\``,
+    );
+  });
+});
+
+describe('linkAllMermaidSymbols', () => {
+  it('should resolve links relative to the reflection documenting them', () => {
+    const { orders, payments, project } = createProject();
+    payments.comment = new Comment([
+      {
+        kind: 'code',
+        text: '```mermaid\nflowchart LR\n  A[{@link save}]\n  B[{@link Nope}]\n```',
+      },
+    ]);
+    const owners: Reflection[] = [];
+    const resolve = (target: string, owner: Reflection) => {
+      owners.push(owner);
+      return target === 'save' ? orders : undefined;
+    };
+
+    const unresolved = linkAllMermaidSymbols(project, resolve);
+
+    expect(
+      owners.map(({ id }) => id),
+      'to equal',
+      [payments.id, payments.id],
+    );
+    expect(
+      unresolved.map(({ reflection, target }) => [reflection.id, target]),
+      'to equal',
+      [[payments.id, 'Nope']],
+    );
+    expect(
+      payments.comment.summary[0]!.text,
+      'to contain',
+      `click A href "__typedoc_ref_${orders.id}__"`,
+    );
+  });
+});
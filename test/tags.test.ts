@@ -0,0 +1,108 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+import { CommentTag } from 'typedoc';
+
+import { convertMermaidTag, parseMermaidTag } from '../src/tags.js';
+
+describe('parseMermaidTag', () => {
+  it('should treat a diagram keyword on the first line as code', () => {
+    expect(parseMermaidTag('graph TD\n  A --> B'), 'to equal', {
+      code: 'graph TD\n  A --> B',
+    });
+  });
+
+  it('should treat a directive on the first line as code', () => {
+    const text = '%%{init:{"theme":"forest"}}%%\ngraph TD';
+
+    expect(parseMermaidTag(text), 'to equal', { code: text });
+  });
+
+  it('should treat a first line starting with title: as a title', () => {
+    expect(
+      parseMermaidTag(
+        'title: Order lifecycle\nstateDiagram-v2\n  [*] --> Pending',
+      ),
+      'to equal',
+      {
+        code: 'stateDiagram-v2\n  [*] --> Pending',
+        title: 'Order lifecycle',
+      },
+    );
+  });
+
+  it('should treat any other first line as code', () => {
+    const text = 'venn-beta\n  set A';
+
+    expect(parseMermaidTag(text), 'to equal', { code: text });
+  });
+
+  it('should not treat a single line as a title', () => {
+    expect(parseMermaidTag('pie'), 'to equal', { code: 'pie' });
+  });
+});
+
+describe('convertMermaidTag', () => {
+  it('should rewrite the content as a mermaid code block', () => {
+    const tag = new CommentTag('@mermaid', [
+      { kind: 'text', text: 'graph TD\n  A --> B' },
+    ]);
+    convertMermaidTag(tag);
+
+    expect(tag.content, 'to equal', [
+      { kind: 'code', text: '```mermaid\ngraph TD\n  A --> B\n```' },
+    ]);
+  });
+
+  it('should pass the title as the block title option', () => {
+    const tag = new CommentTag('@mermaid', [
+      { kind: 'text', text: 'title: Flow\ngraph TD' },
+    ]);
+    convertMermaidTag(tag);
+
+    expect(tag.content, 'to equal', [
+      { kind: 'code', text: '```mermaid title="Flow"\ngraph TD\n```' },
+    ]);
+  });
+
+  it('should quote a title containing double quotes with single quotes', () => {
+    const tag = new CommentTag('@mermaid', [
+      { kind: 'text', text: 'title: The "happy" path\ngraph TD' },
+    ]);
+    convertMermaidTag(tag);
+
+    expect(tag.content, 'to equal', [
+      {
+        kind: 'code',
+        text: '```mermaid title=\'The "happy" path\'\ngraph TD\n```',
+      },
+    ]);
+  });
+
+  it('should keep link tags in the diagram as written', () => {
+    const tag = new CommentTag('@mermaid', [
+      { kind: 'text', text: 'flowchart LR\n  A["' },
+      { kind: 'inline-tag', tag: '@link', text: 'OrderService | Orders' },
+      { kind: 'text', text: '"] --> B\n  click B "' },
+      { kind: 'inline-tag', tag: '@linkcode', text: 'Repository.save' },
+      { kind: 'text', text: '"' },
+    ]);
+    convertMermaidTag(tag);
+
+    expect(tag.content, 'to equal', [
+      {
+        kind: 'code',
+        text: '```mermaid\nflowchart LR\n  A["{@link OrderService | Orders}"] --> B\n  click B "{@linkcode Repository.save}"\n```',
+      },
+    ]);
+  });
+
+  it('should leave content with a mermaid code block alone', () => {
+    const content = [
+      { kind: 'code' as const, text: '```mermaid\ngraph TD\n```' },
+    ];
+    const tag = new CommentTag('@mermaid', content);
+    convertMermaidTag(tag);
+
+    expect(tag.content, 'to equal', content);
+  });
+});
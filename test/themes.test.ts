@@ -0,0 +1,89 @@
+import { expect } from 'bupkis';
+import { describe, it } from 'node:test';
+
+import {
+  applyMermaidTheme,
+  getInitDirective,
+  validateThemeVariables,
+} from '../src/themes.js';
+
+describe('getInitDirective', () => {
+  it('should set the theme', () => {
+    expect(
+      getInitDirective({ theme: 'neutral' }),
+      'to equal',
+      '%%{init:{"theme":"neutral"}}%%',
+    );
+  });
+
+  it('should include theme variables', () => {
+    expect(
+      getInitDirective({
+        theme: 'base',
+        themeVariables: { darkMode: true, primaryColor: '#ff0000' },
+      }),
+      'to equal',
+      '%%{init:{"theme":"base","themeVariables":{"darkMode":true,"primaryColor":"#ff0000"}}}%%',
+    );
+  });
+
+  it('should leave out empty theme variables', () => {
+    expect(
+      getInitDirective({ theme: 'dark', themeVariables: {} }),
+      'to equal',
+      '%%{init:{"theme":"dark"}}%%',
+    );
+  });
+});
+
+describe('validateThemeVariables', () => {
+  it('should accept strings, numbers and booleans', () => {
+    expect(
+      () =>
+        validateThemeVariables({
+          darkMode: true,
+          fontSize: 16,
+          primaryColor: '#fff',
+        }),
+      'not to throw',
+    );
+  });
+
+  it('should reject non-objects', () => {
+    expect(() => validateThemeVariables('#fff'), 'to throw');
+    expect(() => validateThemeVariables(['#fff']), 'to throw');
+  });
+
+  it('should reject nested values', () => {
+    let validationError: Error | undefined;
+    try {
+      validateThemeVariables({ primaryColor: { light: '#fff' } });
+    } catch (err) {
+      validationError = err as Error;
+    }
+
+    expect(
+      validationError?.message,
+      'to match',
+      /Theme variable "primaryColor"/,
+    );
+  });
+});
+
+describe('applyMermaidTheme', () => {
+  it('should put the directive before the diagram', () => {
+    expect(
+      applyMermaidTheme('graph TD', { theme: 'forest' }),
+      'to equal',
+      '%%{init:{"theme":"forest"}}%%\ngraph TD',
+    );
+  });
+
+  it('should put the directive after front matter', () => {
+    expect(
+      applyMermaidTheme('---\ntitle: Flow\n---\ngraph TD', { theme: 'dark' }),
+      'to equal',
+      '---\ntitle: Flow\n---\n%%{init:{"theme":"dark"}}%%\ngraph TD',
+    );
+  });
+});
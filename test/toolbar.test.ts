@@ -0,0 +1,83 @@
+import { expect } from 'bupkis';
+import { JSDOM } from 'jsdom';
+import { describe, it } from 'node:test';
+
+import { toMermaidBlock } from '../src/index.js';
+import {
+  getToolbarScript,
+  type MermaidToolbarAction,
+  validateToolbarActions,
+} from '../src/toolbar.js';
+
+/**
+ * Helper to run the toolbar script on a page with one diagram.
+ */
+const createPage = (
+  actions: MermaidToolbarAction[],
+  prerendered?: Map<string, { dark: string; light: string }>,
+) => {
+  const block = toMermaidBlock('graph TD\n  A --&gt; B', prerendered);
+  const dom = new JSDOM(`<!DOCTYPE html><html><body>${block}</body></html>`, {
+    runScripts: 'outside-only',
+  });
+  const copied: string[] = [];
+  Object.defineProperty(dom.window.navigator, 'clipboard', {
+    value: { writeText: async (text: string) => void copied.push(text) },
+  });
+  dom.window.eval(getToolbarScript(actions).replace(/<\/?script[^>]*>/g, ''));
+  const figure = dom.window.document.querySelector('figure')!;
+  const buttons = [...figure.querySelectorAll('.mermaid-toolbar button')];
+  return { buttons, copied };
+};
+
+describe('validateToolbarActions', () => {
+  it('should accept known actions', () => {
+    validateToolbarActions([]);
+    validateToolbarActions(['copy', 'png', 'svg']);
+  });
+
+  it('should reject unknown actions', () => {
+    let validationError: Error | undefined;
+    try {
+      validateToolbarActions(['copy', 'pdf']);
+    } catch (err) {
+      validationError = err as Error;
+    }
+
+    expect(validationError, 'to be a', TypeError);
+    expect(validationError?.message, 'to contain', '"pdf"');
+  });
+});
+
+describe('getToolbarScript', () => {
+  it('should add a button for each action in order', () => {
+    const { buttons } = createPage(['svg', 'copy', 'png']);
+
+    expect(
+      buttons.map((button) => button.getAttribute('aria-label')),
+      'to equal',
+      ['Download SVG', 'Copy source', 'Download PNG'],
+    );
+  });
+
+  it('should copy the source of a client-side diagram', async () => {
+    const { buttons, copied } = createPage(['copy']);
+
+    (buttons[0] as HTMLButtonElement).click();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(copied, 'to equal', ['graph TD\n  A --> B']);
+  });
+
+  it('should copy the source of a pre-rendered diagram', async () => {
+    const { buttons, copied } = createPage(
+      ['copy'],
+      new Map([
+        ['graph TD\n  A --> B', { dark: '<svg></svg>', light: '<svg></svg>' }],
+      ]),
+    );
+
+    (buttons[0] as HTMLButtonElement).click();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(copied, 'to equal', ['graph TD\n  A --> B']);
+  });
+});
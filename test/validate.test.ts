@@ -0,0 +1,116 @@
+import { expect } from 'bupkis';
+import { JSDOM } from 'jsdom';
+import { before, describe, it } from 'node:test';
+import {
+  DeclarationReflection,
+  FileRegistry,
+  type NormalizedPath,
+  ProjectReflection,
+  type Reflection,
+  ReflectionKind,
+  type Router,
+  SourceReference,
+} from 'typedoc';
+
+import {
+  formatInvalidDiagram,
+  validateMermaidDiagrams,
+} from '../src/validate.js';
+
+/**
+ * Helper to create a class reflection declared in `src/foo.ts`.
+ */
+const createReflection = (): DeclarationReflection => {
+  const project = new ProjectReflection('test', new FileRegistry());
+  const reflection = new DeclarationReflection(
+    'Foo',
+    ReflectionKind.Class,
+    project,
+  );
+  reflection.sources = [
+    new SourceReference('src/foo.ts' as NormalizedPath, 12, 1),
+  ];
+  return reflection;
+};
+
+/**
+ * Helper to create a router which only knows about the given reflection.
+ */
+const createRouter = (reflection: Reflection, url: string): Router =>
+  ({
+    getFullUrl: () => url,
+    hasUrl: (target: Reflection) => target === reflection,
+  }) as unknown as Router;
+
+describe('validateMermaidDiagrams', () => {
+  // Set up jsdom globals so mermaid can run in Node.js
+  before(() => {
+    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+      pretendToBeVisual: true,
+      url: 'http://localhost',
+    });
+    // @ts-expect-error - assigning to global for mermaid compatibility
+    global.window = dom.window;
+    global.document = dom.window.document;
+    global.DOMParser = dom.window.DOMParser;
+  });
+
+  it('should report only diagrams which fail to parse', async () => {
+    const mermaid = await import('mermaid');
+    const reflection = createReflection();
+
+    const invalid = await validateMermaidDiagrams(
+      [
+        { code: 'flowchart LR\n  A --> B', reflection },
+        { code: 'stateDiagram-v2\n  [*] --#gt; Idle', reflection },
+      ],
+      (code) => mermaid.default.parse(code),
+    );
+
+    expect(invalid.length, 'to equal', 1);
+    expect(invalid[0]!.diagram.code, 'to contain', 'stateDiagram-v2');
+    expect(invalid[0]!.message, 'to contain', 'Parse error');
+  });
+});
+
+describe('formatInvalidDiagram', () => {
+  it('should name the reflection, source location and page', () => {
+    const reflection = createReflection();
+    const message = formatInvalidDiagram(
+      { diagram: { code: 'graph', reflection }, message: 'Parse error' },
+      createRouter(reflection, 'classes/Foo.html'),
+    );
+
+    expect(
+      message,
+      'to equal',
+      '[typedoc-plugin-mermaid] Invalid Mermaid diagram in Foo (declared at src/foo.ts:12) on page classes/Foo.html: Parse error',
+    );
+  });
+
+  it('should use the page of the nearest ancestor with a URL', () => {
+    const reflection = createReflection();
+    const child = new DeclarationReflection(
+      'bar',
+      ReflectionKind.Property,
+      reflection,
+    );
+    const message = formatInvalidDiagram(
+      { diagram: { code: 'graph', reflection: child }, message: 'Oops' },
+      createRouter(reflection, 'classes/Foo.html'),
+    );
+
+    expect(message, 'to contain', 'Foo.bar');
+    expect(message, 'to contain', 'on page classes/Foo.html');
+  });
+
+  it('should omit the page without a router', () => {
+    const reflection = createReflection();
+    const message = formatInvalidDiagram({
+      diagram: { code: 'graph', reflection },
+      message: 'Oops',
+    });
+
+    expect(message, 'not to contain', 'on page');
+  });
+});
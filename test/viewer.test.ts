@@ -0,0 +1,78 @@
+import { expect } from 'bupkis';
+import { JSDOM } from 'jsdom';
+import { describe, it } from 'node:test';
+
+import { toMermaidBlock } from '../src/index.js';
+import { getViewerScript, isViewerEnabled } from '../src/viewer.js';
+
+/**
+ * Helper to run the viewer script on a page with one pre-rendered diagram.
+ */
+const createPage = async () => {
+  const block = toMermaidBlock(
+    'graph TD',
+    new Map([['graph TD', { dark: '<svg></svg>', light: '<svg></svg>' }]]),
+  );
+  const dom = new JSDOM(`<!DOCTYPE html><html><body>${block}</body></html>`, {
+    pretendToBeVisual: true,
+    runScripts: 'outside-only',
+  });
+  const script = getViewerScript({ collapseHeight: 0, controls: true });
+  dom.window.eval(script.replace(/<\/?script[^>]*>/g, ''));
+  // Let the script's animation frames run
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  const { document, KeyboardEvent } = dom.window;
+  const figure = document.querySelector('figure')!;
+  const press = (key: string) =>
+    figure.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, key }));
+  return { document, figure, press };
+};
+
+describe('isViewerEnabled', () => {
+  it('should be enabled by controls or a collapse height', () => {
+    expect(isViewerEnabled(undefined), 'to be false');
+    expect(
+      isViewerEnabled({ collapseHeight: 0, controls: false }),
+      'to be false',
+    );
+    expect(
+      isViewerEnabled({ collapseHeight: 0, controls: true }),
+      'to be true',
+    );
+    expect(
+      isViewerEnabled({ collapseHeight: 400, controls: false }),
+      'to be true',
+    );
+  });
+});
+
+describe('getViewerScript', () => {
+  it('should add controls to each diagram', async () => {
+    const { figure } = await createPage();
+
+    expect(figure.classList.contains('mermaid-viewer'), 'to be true');
+    expect(
+      [...figure.querySelectorAll('.mermaid-toolbar button')].map((button) =>
+        button.getAttribute('aria-label'),
+      ),
+      'to equal',
+      ['Zoom in', 'Zoom out', 'Reset zoom', 'Toggle fullscreen'],
+    );
+  });
+
+  it('should toggle fullscreen from the keyboard', async () => {
+    const { document, figure, press } = await createPage();
+
+    press('f');
+    expect(figure.classList.contains('mermaid-fullscreen'), 'to be true');
+    expect(figure.getAttribute('role'), 'to equal', 'dialog');
+    expect(
+      document.documentElement.classList.contains('mermaid-fullscreen-open'),
+      'to be true',
+    );
+
+    press('Escape');
+    expect(figure.classList.contains('mermaid-fullscreen'), 'to be false');
+    expect(figure.hasAttribute('role'), 'to be false');
+  });
+});